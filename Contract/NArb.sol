@@ -18,6 +18,12 @@ interface IUniswapV2Pair {
     function getReserves() external view returns (uint112 reserve0, uint112 reserve1, uint32 blockTimestampLast);
 }
 
+/// @notice Minimal interface for a Solidly/Hermes pair.
+interface ISolidlyPair {
+    function stable() external view returns (bool);
+    function getAmountOut(uint amountIn, address tokenIn) external view returns (uint);
+}
+
 /// @dev Custom Errors
 error ArrayLengthMismatch();
 error TokenTransferFromFailed();
@@ -60,11 +66,13 @@ contract ArbitrageExecutor is Withdrawable {
     /// @param startAmount The amount of startToken provided by the user.
     /// @param arbPairs The addresses of the arbitrage pairs to swap through.
     /// @param arbFees The fee in basis points for each arbitrage pair.
+    /// @param minFinalAmount The least amount of the final token the path must return.
     function executeArbitrageDirect(
         address startToken,
         uint256 startAmount,
         address[] calldata arbPairs,
-        uint256[] calldata arbFees
+        uint256[] calldata arbFees,
+        uint256 minFinalAmount
     ) external returns (address, uint256) {
         console.log("\n=== Starting Direct Arbitrage ===");
         console.log("Start Token:", startToken);
@@ -82,7 +90,8 @@ contract ArbitrageExecutor is Withdrawable {
         console.log("Final Token after arbitrage:", finalToken);
         console.log("Final Amount after arbitrage:", finalAmount);
 
-        if (finalAmount < startAmount) revert ArbitrageLoss();
+        // The final token may differ from startToken, so the caller prices the minimum.
+        if (finalAmount < minFinalAmount) revert ArbitrageLoss();
 
         // The tokens remain in the contract; no transfer back to msg.sender.
         console.log("Direct arbitrage completed. Profit retained in contract.");
@@ -288,26 +297,42 @@ contract ArbitrageExecutor is Withdrawable {
 
         // Transfer the currentAmount to the pair.
         _safeTransfer(currentToken, pairAddr, currentAmount);
-        console.log("Using Amount In:", currentAmount);
 
-        uint256 amountOut = _calculateSwapOutput(currentAmount, reserveIn, reserveOut, fee);
+        // Fee-on-transfer tokens deliver less than was sent, so price the swap on what the pair received.
+        uint256 amountIn = IERC20(currentToken).balanceOf(pairAddr) - reserveIn;
+        console.log("Using Amount In:", amountIn);
+
+        // Stable pools follow the x3y + y3x invariant, let the pair quote them.
+        uint256 amountOut = _isStablePair(pairAddr)
+            ? ISolidlyPair(pairAddr).getAmountOut(amountIn, currentToken)
+            : _calculateSwapOutput(amountIn, reserveIn, reserveOut, fee);
         console.log("Calculated Amount Out:", amountOut);
 
         // Extra check: ensure amountOut does not exceed available reserve.
         if (amountOut >= reserveOut) revert OutputExceedsReserve();
 
+        newToken = isToken0 ? token1 : token0;
+        uint256 balanceBefore = IERC20(newToken).balanceOf(address(this));
+
         if (isToken0) {
             pair.swap(0, amountOut, address(this), new bytes(0));
-            newToken = token1;
         } else {
             pair.swap(amountOut, 0, address(this), new bytes(0));
-            newToken = token0;
         }
 
-        // Instead of checking the balance, we use the calculated amountOut.
-        newAmount = amountOut;
+        // Measure what actually arrived, the output token may also be taxed on transfer.
+        newAmount = IERC20(newToken).balanceOf(address(this)) - balanceBefore;
         console.log("Token received:", newToken);
-        console.log("Final Amount (calculated):", newAmount);
+        console.log("Final Amount (received):", newAmount);
+    }
+
+    /// @dev Returns true for Solidly stable pairs; UniswapV2 pairs have no stable() and revert.
+    function _isStablePair(address pairAddr) internal view returns (bool) {
+        try ISolidlyPair(pairAddr).stable() returns (bool isStable) {
+            return isStable;
+        } catch {
+            return false;
+        }
     }
 
     /// @dev Calculates the output amount for a swap.
@@ -289,6 +289,123 @@ function _executeSell(
     }
 }
 
+// Round trip result of one token, taxes in basis points
+struct TokenHealth {
+    bool buyOk;
+    bool sellOk;
+    uint256 buyTaxBps;
+    uint256 sellTaxBps;
+}
+
+// Buy-then-sell round trip of every token against its base token, measuring the transfer
+// taxes instead of only reporting success. Meant for eth_call: the caller's base token
+// balance and allowance to this contract can be provided with state overrides.
+function healthCheckDetailed(
+    address[] calldata marketAddresses,
+    address[] calldata baseTokens,
+    address[] calldata tokens,
+    uint256[] calldata fees,
+    uint256[] calldata amountInBases
+) external returns (TokenHealth[] memory results) {
+    require(
+        marketAddresses.length == baseTokens.length &&
+        baseTokens.length == tokens.length &&
+        tokens.length == fees.length &&
+        fees.length == amountInBases.length,
+        "Array length mismatch"
+    );
+
+    results = new TokenHealth[](marketAddresses.length);
+
+    for (uint256 i = 0; i < marketAddresses.length; i++) {
+        if (!IERC20(baseTokens[i]).transferFrom(msg.sender, address(this), amountInBases[i])) {
+            continue;
+        }
+
+        try this._taxedBuy(marketAddresses[i], baseTokens[i], tokens[i], fees[i], amountInBases[i]) returns (uint256 bought, uint256 buyTaxBps) {
+            results[i].buyOk = bought > 0;
+            results[i].buyTaxBps = buyTaxBps;
+            if (bought == 0) continue;
+
+            try this._taxedSell(marketAddresses[i], baseTokens[i], tokens[i], fees[i], bought) returns (uint256 returned, uint256 sellTaxBps) {
+                results[i].sellOk = returned > 0;
+                results[i].sellTaxBps = sellTaxBps;
+            } catch {
+                console.log("Sell reverted for token:", tokens[i]);
+            }
+        } catch {
+            console.log("Buy reverted for token:", tokens[i]);
+        }
+    }
+}
+
+// Buy with the contract's base tokens, tax is the share of the pair's output that didn't arrive
+function _taxedBuy(
+    address marketAddress,
+    address baseToken,
+    address token,
+    uint256 fee,
+    uint256 amountInBase
+) external returns (uint256 received, uint256 taxBps) {
+    require(msg.sender == address(this), "Only self");
+
+    (uint256 r0, uint256 r1, ) = IUniswapV2Pair(marketAddress).getReserves();
+    address t0 = IUniswapV2Pair(marketAddress).token0();
+
+    IERC20(baseToken).transfer(marketAddress, amountInBase);
+    uint256 expectedOut = getAmountOut(
+        amountInBase,
+        t0 == baseToken ? r0 : r1,
+        t0 == baseToken ? r1 : r0,
+        fee
+    );
+
+    uint256 balanceBefore = IERC20(token).balanceOf(address(this));
+    IUniswapV2Pair(marketAddress).swap(
+        t0 == token ? expectedOut : 0,
+        t0 == token ? 0 : expectedOut,
+        address(this),
+        new bytes(0)
+    );
+    received = IERC20(token).balanceOf(address(this)) - balanceBefore;
+    taxBps = received >= expectedOut ? 0 : ((expectedOut - received) * 10000) / expectedOut;
+}
+
+// Sell back what was bought, tax is the share of the transfer that didn't reach the pair
+function _taxedSell(
+    address marketAddress,
+    address baseToken,
+    address token,
+    uint256 fee,
+    uint256 tokenAmount
+) external returns (uint256 returned, uint256 taxBps) {
+    require(msg.sender == address(this), "Only self");
+
+    (uint256 r0, uint256 r1, ) = IUniswapV2Pair(marketAddress).getReserves();
+    address t0 = IUniswapV2Pair(marketAddress).token0();
+    uint256 reserveToken = t0 == token ? r0 : r1;
+
+    IERC20(token).transfer(marketAddress, tokenAmount);
+    uint256 arrived = IERC20(token).balanceOf(marketAddress) - reserveToken;
+    taxBps = arrived >= tokenAmount ? 0 : ((tokenAmount - arrived) * 10000) / tokenAmount;
+
+    uint256 expectedReturn = getAmountOut(
+        arrived,
+        reserveToken,
+        t0 == token ? r1 : r0,
+        fee
+    );
+
+    uint256 balanceBefore = IERC20(baseToken).balanceOf(address(this));
+    IUniswapV2Pair(marketAddress).swap(
+        t0 == baseToken ? expectedReturn : 0,
+        t0 == baseToken ? 0 : expectedReturn,
+        address(this),
+        new bytes(0)
+    );
+    returned = IERC20(baseToken).balanceOf(address(this)) - balanceBefore;
+}
+
 function getAmountOut(
     uint256 amountIn,
     uint256 reserveIn,
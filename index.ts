@@ -1,11 +1,15 @@
 import { formatUnits } from 'viem';
 import { initializeNetwork } from './src/network';
 import { getAllPairsInfo, type PairInfo } from './src/getinfo';
+import { getAllV3PoolsInfo } from './src/v3';
+import { classifyNewTokens } from './src/classifier';
 import { ArbitrageGraph } from './src/graph';
-import { DEBUG, ADDRESSES } from './src/constants';
+import { DEBUG, ADDRESSES, TAX_CHECK_ENABLED } from './src/constants';
 import { EventMonitor } from './src/event';
-import { findAndLogArbitrageOpportunities } from "./src/opp";
+import { findAndLogArbitrageOpportunities, validateProfitThresholds } from "./src/opp";
 import { createNonceManager } from './src/nonce';
+import { tokenRegistry } from './src/tokens';
+import { terminateSearchWorkerPool } from './src/workers';
 
 async function main() {
     try {
@@ -13,26 +17,43 @@ async function main() {
         console.log("Initializing network...");
         const network = await initializeNetwork();
 
+        // Thresholds are logged in whole tokens, so the start tokens need their metadata first
+        await tokenRegistry.load(network.client, ADDRESSES.map(addr => addr.address));
+
+        // Fail fast when a start token has no profit threshold
+        validateProfitThresholds();
+
         // Initialize nonce manager
         console.log("Initializing nonce manager...");
         const nonceManager = createNonceManager(network.account);
         await nonceManager.initialize(network.client);
 
         console.log("Fetching pairs information...");
-        const pairs = await getAllPairsInfo(network.client);
+        // Reserves are at least this recent, later events are applied on top
+        const startBlock = await network.client.getBlock();
+        let pairs = await getAllPairsInfo(network.client);
+        if (TAX_CHECK_ENABLED) {
+            // Tokens never seen before are checked for transfer taxes and honeypots
+            pairs = await classifyNewTokens(network.client, pairs);
+        }
+        const v3Pools = await getAllV3PoolsInfo(network.client);
+        pairs.push(...v3Pools);
 
         if (DEBUG) {
-            console.log(`Found ${pairs.length} pairs`);
+            console.log(`Found ${pairs.length} pairs (${v3Pools.length} V3 pools)`);
         }
 
         // Initialize and build the arbitrage graph
         console.log("Building arbitrage graph...");
         const graph = new ArbitrageGraph();
+        graph.setBlockNumber(startBlock.number);
+        if (startBlock.baseFeePerGas !== null) graph.setBaseFee(startBlock.baseFeePerGas);
         
         // Add all pairs to the graph
         for (const pair of pairs) {
             graph.addPair(pair);
         }
+        await tokenRegistry.load(network.client, graph.getTokens());
 
         // Find arbitrage opportunities
         console.log("Searching for initial arbitrage opportunities...");
@@ -47,6 +68,7 @@ async function main() {
         process.on('SIGINT', async () => {
             console.log('\nStopping event monitor...');
             await monitor.stop();
+            terminateSearchWorkerPool();
             process.exit();
         });
 
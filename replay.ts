@@ -0,0 +1,54 @@
+import { type Address } from 'viem';
+import { loadGraphSnapshot, restoreGraph } from './src/snapshot';
+import { ADDRESSES, TOP_TOKENS_FOR_ARBITRAGE } from './src/constants';
+
+// Replays a graph snapshot offline: rebuilds the graph, reruns the search the snapshot was
+// taken for (incremental when it recorded updated pairs) and compares the result with the
+// opportunities recorded in the snapshot. The incremental search runs on a freshly built
+// cycle index, so capped pairs may keep other cycles than the live one did.
+async function main() {
+    const file = process.argv[2];
+    if (!file) {
+        console.error('Usage: bun run replay <snapshot.json>');
+        process.exit(1);
+    }
+
+    const snapshot = await loadGraphSnapshot(file);
+    const graph = restoreGraph(snapshot);
+    console.log(`Restored ${graph.getPairAddresses().length} pairs at block ${snapshot.blockNumber ?? 'unknown'} (taken ${snapshot.createdAt})`);
+
+    const startTokens = snapshot.startTokens ?? ADDRESSES
+        .slice(0, Math.min(TOP_TOKENS_FOR_ARBITRAGE, ADDRESSES.length))
+        .map(addr => addr.address);
+    const result = snapshot.updatedPairs
+        ? graph.findArbitrageOpportunitiesForPairs(startTokens, snapshot.updatedPairs)
+        : graph.findMultiTokenArbitrageOpportunities(startTokens);
+    console.log(snapshot.updatedPairs
+        ? `Replayed the incremental search over ${snapshot.updatedPairs.length} updated pairs`
+        : `Replayed the full search (${graph.getSearchStrategy().name})`);
+
+    const replayed = new Map(result.pairs.map((pairs, i) => [pairs.join(','), i]));
+    for (const recorded of snapshot.opportunities || []) {
+        const index = replayed.get(recorded.pairs.join(','));
+        console.log(`\nRecorded: ${recorded.path.join(' -> ')}`);
+        const recordedNet = recorded.netProfit === undefined ? '' : ` (net ${recorded.netProfit})`;
+        console.log(`  recorded profit ${recorded.expectedProfit}${recordedNet} for input ${recorded.amountIn}`);
+        if (index === undefined) {
+            console.log('  not found by the replayed search');
+        } else {
+            console.log(`  replayed profit ${result.exactProfits[index]} (net ${result.netProfits[index]}) for input ${result.exactAmounts[index]}`);
+            replayed.delete(recorded.pairs.join(','));
+        }
+    }
+
+    for (const index of replayed.values()) {
+        const path = result.paths[index] as Address[];
+        console.log(`\nOnly in replay: ${path.join(' -> ')}`);
+        console.log(`  profit ${result.exactProfits[index]} (net ${result.netProfits[index]}) for input ${result.exactAmounts[index]}`);
+    }
+}
+
+main().catch(error => {
+    console.error('Replay failed:', error instanceof Error ? error.message : error);
+    process.exit(1);
+});
@@ -1,6 +1,7 @@
 import TelegramBot from 'node-telegram-bot-api';
-import { formatEther } from 'viem';
+import { type Address } from 'viem';
 import { TELEGRAM_BOT_TOKEN, TELEGRAM_CHAT_ID } from './constants';
+import { tokenRegistry } from './tokens';
 
 if (!TELEGRAM_BOT_TOKEN || !TELEGRAM_CHAT_ID) {
     console.warn('Warning: TELEGRAM_BOT_TOKEN or TELEGRAM_CHAT_ID not set. Notifications will be disabled.');
@@ -26,17 +27,20 @@ class NotificationService {
     async sendTransactionNotification(
         hash: string,
         type: 'flashswap' | 'direct',
-        expectedProfit: bigint
+        token: Address,
+        expectedProfit: bigint,
+        netProfit?: bigint
     ): Promise<void> {
         if (!this.bot || !TELEGRAM_CHAT_ID) return;
 
-        const profitInEth = Number(formatEther(expectedProfit));
-        const emoji = profitInEth > 0 ? '💰' : '⚠️';
+        const emoji = expectedProfit > 0n ? '💰' : '⚠️';
         
         const message = 
             `${emoji} <b>Arbitrage Transaction</b>\n\n` +
             `🔄 <b>Type:</b> ${type === 'flashswap' ? 'Flash Swap' : 'Direct Swap'}\n` +
-            `💵 <b>Expected Profit:</b> ${profitInEth.toFixed(6)} ETH\n\n` +
+            `💵 <b>Expected Profit:</b> ${tokenRegistry.formatAmount(token, expectedProfit)}\n` +
+            (netProfit === undefined ? '' : `⛽ <b>Net of Gas:</b> ${tokenRegistry.formatAmount(token, netProfit)}\n`) +
+            `\n` +
             `🔗 <b>Transaction:</b>\n` +
             `<code>${hash}</code>\n\n` +
             `🔍 <a href="https://www.shibariumscan.io/tx/${hash}">View on Explorer</a>`;
@@ -0,0 +1,225 @@
+import { type Address, type createPublicClient, encodeAbiParameters, keccak256, numberToHex, parseAbiParameters } from 'viem';
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import path from 'path';
+import {
+    ADDRESSES, DEBUG, UNISWAP_FLASH_QUERY_CONTRACT, TAX_CHECK_AMOUNT, TAX_CHECK_MIN_BPS, TAX_CHECK_BATCH_SIZE,
+    TAX_CHECK_ACCOUNT, TAX_CHECK_BASE_SLOTS, TAXED_TOKENS_FILE, BANNED_TOKENS_FILE, TOKEN_CLASSIFICATION_FILE
+} from './constants';
+import UniswapFlashQueryABI from './ABI/UniswapFlashQuery.json';
+import { banToken, getTransferTax, isTokenAllowed, isTokenRegistered, setTransferTax } from './getinfo';
+import { type PairInfo } from './graph';
+import { type TransferTax } from './swap';
+import { FetchReport, getRpcFetcher } from './fetcher';
+
+const BASE_TOKEN = ADDRESSES[0].address;
+
+/**
+ * Outcome of a token's simulated round trip against WCRO
+ */
+export type TokenClassification = {
+    pairAddress: Address;
+    buyOk: boolean;
+    sellOk: boolean;
+    buyTaxBps: number;
+    sellTaxBps: number;
+    checkedAt: number;
+};
+
+type TokenHealth = {
+    buyOk: boolean;
+    sellOk: boolean;
+    buyTaxBps: bigint;
+    sellTaxBps: bigint;
+};
+
+type TaxCheck = {
+    token: Address;
+    pair: PairInfo;
+    amountIn: bigint;
+};
+
+// Storage slot of a Solidity mapping entry
+function mappingSlot(key: Address, slot: bigint | `0x${string}`): `0x${string}` {
+    const slotValue = typeof slot === 'bigint' ? slot : BigInt(slot);
+    return keccak256(encodeAbiParameters(parseAbiParameters('address, uint256'), [key, slotValue]));
+}
+
+/**
+ * State overrides giving TAX_CHECK_ACCOUNT a WCRO balance and the query contract an allowance to pull it
+ */
+function getBaseTokenOverride(amount: bigint) {
+    const account = TAX_CHECK_ACCOUNT as Address;
+    const value = numberToHex(amount, { size: 32 });
+    return [{
+        address: BASE_TOKEN,
+        stateDiff: [
+            { slot: mappingSlot(account, TAX_CHECK_BASE_SLOTS.balance), value },
+            { slot: mappingSlot(UNISWAP_FLASH_QUERY_CONTRACT as Address, mappingSlot(account, TAX_CHECK_BASE_SLOTS.allowance)), value },
+        ],
+    }];
+}
+
+/**
+ * The deepest plain V2 WCRO pair of every token the round trip can go through
+ */
+function getCheckPairs(pairs: PairInfo[]): Map<string, PairInfo> {
+    const base = BASE_TOKEN.toLowerCase();
+    const best = new Map<string, PairInfo>();
+
+    for (const pair of pairs) {
+        if (pair.v3 || pair.stable) continue;
+        const baseIs0 = pair.token0.toLowerCase() === base;
+        if (!baseIs0 && pair.token1.toLowerCase() !== base) continue;
+
+        const token = (baseIs0 ? pair.token1 : pair.token0).toLowerCase();
+        const reserve = baseIs0 ? pair.reserve0 : pair.reserve1;
+        const current = best.get(token);
+        if (!current || reserve > (current.token0.toLowerCase() === base ? current.reserve0 : current.reserve1)) {
+            best.set(token, pair);
+        }
+    }
+    return best;
+}
+
+async function simulateRoundTrips(client: ReturnType<typeof createPublicClient>, checks: TaxCheck[]): Promise<TokenHealth[]> {
+    const total = checks.reduce((sum, check) => sum + check.amountIn, 0n);
+    const { result } = await client.simulateContract({
+        address: UNISWAP_FLASH_QUERY_CONTRACT as Address,
+        abi: UniswapFlashQueryABI,
+        functionName: 'healthCheckDetailed',
+        args: [
+            checks.map(check => check.pair.pairAddress),
+            checks.map(() => BASE_TOKEN),
+            checks.map(check => check.token),
+            checks.map(check => BigInt(check.pair.fee)),
+            checks.map(check => check.amountIn),
+        ],
+        account: TAX_CHECK_ACCOUNT as Address,
+        stateOverride: getBaseTokenOverride(total),
+    });
+    return result as TokenHealth[];
+}
+
+async function readJson<T>(filePath: string, fallback: T): Promise<T> {
+    try {
+        return JSON.parse(await readFile(filePath, 'utf8')) as T;
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+        return fallback;
+    }
+}
+
+/**
+ * Add new findings to taxed.json, bannedtax.json and the classification cache.
+ * The registries are re-read first so hand edits made while running are kept.
+ */
+async function saveClassifications(
+    classified: Map<string, TokenClassification>,
+    taxed: Map<Address, TransferTax>,
+    banned: Address[]
+): Promise<void> {
+    if (taxed.size > 0) {
+        const registry = await readJson<Record<string, TransferTax>>(TAXED_TOKENS_FILE, {});
+        for (const [token, tax] of taxed) registry[token] = tax;
+        await writeFile(TAXED_TOKENS_FILE, JSON.stringify(registry, null, 2));
+    }
+
+    if (banned.length > 0) {
+        const registry = await readJson<string[]>(BANNED_TOKENS_FILE, []);
+        await writeFile(BANNED_TOKENS_FILE, JSON.stringify([...registry, ...banned], null, 4) + '\n');
+    }
+
+    await mkdir(path.dirname(TOKEN_CLASSIFICATION_FILE), { recursive: true });
+    await writeFile(TOKEN_CLASSIFICATION_FILE, JSON.stringify(Object.fromEntries(classified)));
+}
+
+/**
+ * Classify the tokens of the pairs that were never checked by simulating a buy-then-sell
+ * round trip through their deepest WCRO pair. Tokens that can't be sold are banned, measured
+ * taxes are recorded, and both registries are updated on disk and in memory.
+ * Returns the pairs still allowed, with the new taxes applied.
+ * A failed buy is inconclusive (the configured fee may be wrong), so the token is checked again later.
+ */
+export async function classifyNewTokens<T extends PairInfo>(
+    client: ReturnType<typeof createPublicClient>,
+    pairs: T[]
+): Promise<T[]> {
+    const classified = new Map(Object.entries(
+        await readJson<Record<string, TokenClassification>>(TOKEN_CLASSIFICATION_FILE, {})
+    ));
+    const trusted = new Set(ADDRESSES.map(token => token.address.toLowerCase()));
+
+    const seen = new Map<string, Address>();
+    for (const pair of pairs) {
+        for (const token of [pair.token0, pair.token1]) {
+            const tokenLower = token.toLowerCase();
+            if (trusted.has(tokenLower) || classified.has(tokenLower) || isTokenRegistered(token)) continue;
+            seen.set(tokenLower, token);
+        }
+    }
+    if (seen.size === 0) return pairs;
+
+    const checkPairs = getCheckPairs(pairs);
+    const checks: TaxCheck[] = [];
+    for (const [tokenLower, token] of seen) {
+        const pair = checkPairs.get(tokenLower);
+        if (!pair) continue;
+        const baseReserve = pair.token0.toLowerCase() === BASE_TOKEN.toLowerCase() ? pair.reserve0 : pair.reserve1;
+        const amountIn = TAX_CHECK_AMOUNT < baseReserve / 100n ? TAX_CHECK_AMOUNT : baseReserve / 100n;
+        if (amountIn > 0n) checks.push({ token, pair, amountIn });
+    }
+    console.log(`Classifying ${checks.length} new tokens (${seen.size - checks.length} without a WCRO pair to check through)`);
+
+    const report = new FetchReport();
+    const results = await getRpcFetcher(client).fetchInBatches(
+        checks,
+        TAX_CHECK_BATCH_SIZE,
+        async batch => {
+            const health = await simulateRoundTrips(client, batch);
+            return batch.map((check, i) => ({ check, health: health[i] }));
+        },
+        (check, reason) => report.skip('tax check', check.pair.factory ?? 'unknown', check.token, reason)
+    );
+
+    const taxed = new Map<Address, TransferTax>();
+    const banned: Address[] = [];
+    const now = Math.floor(Date.now() / 1000);
+    for (const { check, health } of results) {
+        if (!health.buyOk) {
+            if (DEBUG) console.log(`Buy of ${check.token} through ${check.pair.pairAddress} failed, leaving it unclassified`);
+            continue;
+        }
+
+        const classification: TokenClassification = {
+            pairAddress: check.pair.pairAddress,
+            buyOk: health.buyOk,
+            sellOk: health.sellOk,
+            buyTaxBps: Number(health.buyTaxBps),
+            sellTaxBps: Number(health.sellTaxBps),
+            checkedAt: now,
+        };
+        classified.set(check.token.toLowerCase(), classification);
+
+        if (!classification.sellOk) {
+            console.log(`Token ${check.token} can't be sold, banning it`);
+            banned.push(check.token);
+            banToken(check.token);
+        } else if (classification.buyTaxBps >= TAX_CHECK_MIN_BPS || classification.sellTaxBps >= TAX_CHECK_MIN_BPS) {
+            const tax = { buyFeeBps: classification.buyTaxBps, sellFeeBps: classification.sellTaxBps };
+            console.log(`Token ${check.token} is taxed: buy ${tax.buyFeeBps} bps, sell ${tax.sellFeeBps} bps`);
+            taxed.set(check.token, tax);
+            setTransferTax(check.token, tax);
+        }
+    }
+    report.log();
+
+    try {
+        await saveClassifications(classified, taxed, banned);
+    } catch (error) {
+        console.error('Failed to save token classifications:', error);
+    }
+
+    return pairs
+        .filter(pair => isTokenAllowed(pair.token0) && isTokenAllowed(pair.token1))
+        .map(pair => ({ ...pair, tax0: getTransferTax(pair.token0), tax1: getTransferTax(pair.token1) }));
+}
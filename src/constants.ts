@@ -26,8 +26,9 @@ export const UNISWAP_FLASH_QUERY_CONTRACT =
  * - name: A human-readable name for the token
  * - address: The token's contract address
  * - LPAMOUNT: The amount to use when calculating liquidity
+ * - decimals (optional): Overrides the decimals read from the token; name always overrides its symbol
  */
-export const ADDRESSES: { name: string; address: `0x${string}`; LPAMOUNT: string }[] = [
+export const ADDRESSES: { name: string; address: `0x${string}`; LPAMOUNT: string; decimals?: number }[] = [
     { name: "WCRO", address: "0x5C7F8A570d578ED84E63fdFA7b1eE72dEae1AE23" as `0x${string}`, LPAMOUNT: parseEther("1200").toString() },
     { name: "USDC", address: "0xc21223249CA28397B4B6541dfFaEcC539BfF0c59" as `0x${string}`, LPAMOUNT: parseUnits("100", 6).toString() },
     { name: "USDT", address: "0x66e428c3f67a68878562e79A0234c1F83c208770" as `0x${string}`, LPAMOUNT: parseUnits("100", 6).toString() }, //shib
@@ -57,11 +58,15 @@ export const ADDRESSES: { name: string; address: `0x${string}`; LPAMOUNT: string
  * - name: The name of the DEX (e.g., "VVS", "MMF")
  * - address: The factory contract address
  * - fee: The trading fee in basis points (e.g., 30 = 0.3%)
- * - volatile: Flag to indicate if this is a volatile DEX (if true, stable pairs will be excluded)
+ * - volatile: Flag for Solidly/Hermes style DEXes (if true, stable pairs are detected and
+ *   priced with the x³y + y³x stable invariant instead of constant product)
+ * - stableFee: Optional trading fee in basis points for the stable pairs of such a DEX
  * 
  * The bot will search for arbitrage opportunities across all these exchanges.
+ * Entries and fees can be generated or checked from the DEX routers with
+ * `bun run discover [--validate] <router>...` (src/getfactory.ts).
  */
-export const FACTORY: { name: string; address: `0x${string}`; fee: number; volatile: boolean }[] = [
+export const FACTORY: { name: string; address: `0x${string}`; fee: number; volatile: boolean; stableFee?: number }[] = [
     { name: "VVS", address: "0x3B44B2a187a7b3824131F8db5a74194D0a42Fc15" as `0x${string}`, fee: 30, volatile: false },
     { name: "MMF", address: "0xd590cC180601AEcD6eeADD9B7f2B7611519544f4" as `0x${string}`, fee: 17, volatile: false }, //swapfee
     { name: "Ebisu", address: "0x5f1D751F447236f486F4268b883782897A902379" as `0x${string}`, fee: 15, volatile: false }, // swap fee
@@ -76,6 +81,42 @@ export const FACTORY: { name: string; address: `0x${string}`; fee: number; volat
     { name: "Anne", address: "0xFb6FE7d66E55831b7e108B77D11b8e4d479c2986" as `0x${string}`, fee: 20, volatile: false },
 ];
 
+/**
+ * Uniswap V3 style factories (concentrated liquidity)
+ *
+ * Each factory object contains:
+ * - name: The name of the DEX
+ * - address: The factory contract address
+ * - feeTiers: Pool fee tiers in hundredths of a bip (e.g., 500 = 0.05%, 3000 = 0.3%)
+ *
+ * Pools are looked up with getPool() for every pair of ADDRESSES tokens and fee tier.
+ * V3 hops are quoted and optimized, but NArb cannot execute them yet.
+ */
+export const V3_FACTORY: { name: string; address: `0x${string}`; feeTiers: number[] }[] = [
+    // { name: "ExampleV3", address: "0x..." as `0x${string}`, feeTiers: [100, 500, 3000, 10000] },
+];
+
+/**
+ * Tick bitmap words loaded on each side of a V3 pool's current tick.
+ * Each word covers 256 * tickSpacing ticks; quotes that leave the loaded range are rejected.
+ */
+export const V3_TICK_WORDS = 2;
+
+/**
+ * Numeraires of the graph price oracle. Values are returned in raw units of these tokens,
+ * prices are derived from WCRO along the deepest-liquidity path and USD is read through USDC.
+ */
+export const PRICE_NUMERAIRES = {
+    WCRO: { address: ADDRESSES[0].address },
+    USD: { address: ADDRESSES[1].address },
+} as const;
+
+/**
+ * Pricing path liquidity (in WCRO wei) at which the oracle reports a confidence of 0.5.
+ * Confidence is liquidity / (liquidity + ORACLE_REFERENCE_LIQUIDITY).
+ */
+export const ORACLE_REFERENCE_LIQUIDITY = parseEther("50000");
+
 /**
  * Token-specific minimum profit thresholds
  * 
@@ -97,30 +138,211 @@ export const minProfits = [
     // Add more thresholds if TOP_TOKENS_FOR_ARBITRAGE is increased
 ];
 
-// Legacy minProfit for backward compatibility - findArbitrageOpportunities
+// Legacy single threshold (WCRO units), kept for backward compatibility. The searches use minProfits.
 export const minProfit = parseEther("3");
 export const maxIterations = 100;
 export const maxHops = 3;
 export const MAX_ENTRIES_PER_TOKEN = 10;
 
+/**
+ * Cycles kept per pair in the index of the incremental search, those with the best spot-rate
+ * product when indexed. Bounds the index around hub tokens trading in hundreds of pairs.
+ * Ranks aren't refreshed as reserves move, so a cycle left out can only come back when the
+ * index is rebuilt, every CYCLE_INDEX_REBUILD_MS: until then the incremental search may miss
+ * routes the full search finds. A shorter interval catches them sooner at the cost of a full
+ * rebuild (in every search worker) each time.
+ */
+export const CYCLE_INDEX_MAX_PER_PAIR = 200;
+export const CYCLE_INDEX_REBUILD_MS = 60 * 1000;
+
+/**
+ * Cycle finder used by the full graph searches:
+ * - 'dp': beam-limited DP keeping MAX_ENTRIES_PER_TOKEN routes per token and step
+ * - 'spfa': Bellman-Ford/SPFA negative cycle detection on -log(rate) weights
+ */
+export const SEARCH_STRATEGY: 'dp' | 'spfa' = 'dp';
+
+/**
+ * Number of Bun workers the arbitrage search is fanned out to, one share of the start tokens each.
+ * Every worker holds a snapshot of the pairs and receives reserve changes before each search.
+ * 0 runs the search on the main thread.
+ */
+export const SEARCH_WORKERS = 4;
+
+/**
+ * A search worker that hasn't answered within this time is restarted and its search rejected,
+ * so a stuck or crashed worker can't hold up the arbitrage checks.
+ */
+export const SEARCH_WORKER_TIMEOUT_MS = 10000;
+
+/**
+ * Timeout for a worker's first search, which also loads the full snapshot and builds its cycle
+ * index (seconds on a large graph). Kept apart so a fresh worker isn't restarted in a loop.
+ */
+export const SEARCH_WORKER_FIRST_TIMEOUT_MS = 60000;
+
+/**
+ * Save a graph snapshot (pairs, reserves, fees, factory tags, block number) with every batch of
+ * opportunities found, so it can be replayed offline with `bun run replay <file>`.
+ */
+export const SNAPSHOT_OPPORTUNITIES = false;
+export const SNAPSHOT_DIR = 'snapshots';
+
+/**
+ * Partial execution sequences kept per step when choosing which opportunities of a batch
+ * to execute (see selection.ts). 1 is a greedy pick of the best re-simulated opportunity.
+ */
+export const SELECTION_BEAM_WIDTH = 4;
+
+/**
+ * Maximum allowed deviation (in basis points) between the float profit estimate
+ * and the exact BigInt replay of a path. Candidates outside it are discarded.
+ */
+export const EXACT_PROFIT_TOLERANCE_BPS = 10;
+
 /**
  * Number of top tokens to consider for arbitrage
  * IMPORTANT: This value must not exceed the length of the minProfits array.
  * If you increase this number, make sure to add corresponding entries to the minProfits array.
- * NOTE - the more token you add - it increase the speed +100ms when searching(e.g if 3 means 300ms total)
+ * NOTE - on a single thread each token adds ~100ms to the search (e.g if 3 means 300ms total).
+ * With SEARCH_WORKERS the start tokens are searched in parallel.
  */
 export const TOP_TOKENS_FOR_ARBITRAGE = 3;
 
 export const DEBUG = true;
 export const WSS_ENABLED = true; //enable this only when you are on a chain with wss support or better wss
-export const NERK = false;
+
+export type DirectRoute = {
+    from: `0x${string}`;
+    to: `0x${string}`;
+    // Minimum profit in WCRO wei, the output being valued in `from` through the price oracle
+    minProfit: bigint;
+};
+
+/**
+ * Non-circular routes traded from the arbitrage contract's own token balance (inventory)
+ * instead of a flash loan. A route is taken when the `to` tokens received are worth more
+ * than the `from` tokens spent, at oracle prices, by at least the route's minProfit.
+ * `from` must be one of the first TOP_TOKENS_FOR_ARBITRAGE tokens, and the trade size is
+ * capped by the contract's balance of it. Empty disables direct arbitrage.
+ */
+export const DIRECT_ROUTES: DirectRoute[] = [
+    // { from: ADDRESSES[0].address, to: ADDRESSES[1].address, minProfit: parseEther("3") }, // WCRO -> USDC
+    // { from: ADDRESSES[1].address, to: ADDRESSES[0].address, minProfit: parseEther("3") }, // USDC -> WCRO
+];
 
 
 export const BATCH_SIZE = 200;
 
+/**
+ * On-disk cache of the pairs listed by each factory (addresses, tokens, fee, creation index).
+ * On start only pairs created since the cached count are fetched. A factory's entries are
+ * dropped when its FACTORY entry (address, fee, flags) or the chain changes.
+ */
+export const PAIR_CACHE_FILE = '.cache/pairs.json';
+
+/**
+ * Startup fetching through the UniswapFlashQuery contract, per RPC endpoint: at most
+ * FETCH_CONCURRENCY requests in flight and FETCH_RATE_LIMIT started per second.
+ * Failed requests are retried FETCH_MAX_RETRIES times, backing off exponentially from
+ * FETCH_BACKOFF_MS (reverts aren't retried). A batch that keeps failing is split in half
+ * until the failing pair is isolated and skipped.
+ */
+export const FETCH_CONCURRENCY = 4;
+export const FETCH_RATE_LIMIT = 10;
+export const FETCH_MAX_RETRIES = 3;
+export const FETCH_BACKOFF_MS = 500;
+
+/**
+ * Background reserve reconciliation (src/reconciler.ts): every RECONCILE_INTERVAL_MS the next
+ * RECONCILE_BATCH_SIZE V2 pairs, in rotation, are re-read with getReservesByPairs and pairs
+ * that drifted from the chain (missed Sync events) are corrected. 0 disables it.
+ */
+export const RECONCILE_INTERVAL_MS = 30000;
+export const RECONCILE_BATCH_SIZE = 200;
+
+/**
+ * Highest transfer tax (buy or sell, in basis points) a token listed in taxed.json
+ * may carry and still be routed through. Tokens taxed above it are excluded like banned ones.
+ */
+export const MAX_TRANSFER_TAX_BPS = 1000;
+
+/**
+ * Pair admission filters run at each stage, in order (src/filters.ts):
+ * - listing: pairs as listed by a factory, pools counted per BATCH_SIZE range of its list
+ * - reserves: pairs once their reserves are fetched
+ * - global: every factory's pairs together, pools counted across them
+ * Pairs created after startup go through listing and reserves with pools counted in the graph.
+ * Each rejection is recorded with its reason, and a per-factory summary is logged at startup.
+ */
+export const PAIR_FILTER_CHAIN = {
+    listing: ['poolCount', 'allowedTokens'],
+    reserves: ['minReserve', 'recentActivity', 'monitoredLiquidity'],
+    global: ['poolCount'],
+} as const;
+
+export const PAIR_FILTER_SETTINGS = {
+    // Both reserves must be above this, in whole tokens of each side (18 decimals assumed when unknown)
+    minReserve: "1",
+    // Pairs whose reserves haven't changed for longer (90 days) are inactive
+    maxPairAgeSeconds: 90 * 24 * 60 * 60,
+    // One reserve of a pair without an ADDRESSES token must reach this, ADDRESSES tokens need their LPAMOUNT
+    minOtherTokensLiquidity: parseEther("11000"),
+    // Pools both tokens must trade in, the pair itself included
+    minTokenPools: 2,
+};
+
+/**
+ * Pairs created after startup are dropped when no Sync admitted them within this time
+ */
+export const NEW_PAIR_ADMISSION_WINDOW_MS = 60 * 60 * 1000;
+
+/**
+ * Automatic tax/honeypot classification of tokens that aren't in ADDRESSES, taxed.json,
+ * bannedtax.json or the classification cache, at startup and for pairs created later
+ * before they join the graph. A buy-then-sell round trip of up to
+ * TAX_CHECK_AMOUNT WCRO (at most 1% of the pair's WCRO reserve) through the token's deepest
+ * WCRO pair is simulated with eth_call (UniswapFlashQuery.healthCheckDetailed), the WCRO
+ * balance and allowance of TAX_CHECK_ACCOUNT set with state overrides at WCRO's (WETH9)
+ * storage slots. Tokens that can be bought but not sold are banned, and buy/sell taxes of at
+ * least TAX_CHECK_MIN_BPS are recorded in taxed.json.
+ * Needs the query contract redeployed with healthCheckDetailed before enabling.
+ */
+export const TAX_CHECK_ENABLED = false;
+export const TAX_CHECK_AMOUNT = parseEther("10");
+export const TAX_CHECK_MIN_BPS = 10;
+export const TAX_CHECK_BATCH_SIZE = 20;
+// Only exists in the simulation
+export const TAX_CHECK_ACCOUNT = '0x000000000000000000000000000000000000dEaD';
+export const TAX_CHECK_BASE_SLOTS = { balance: 3n, allowance: 4n } as const;
+export const TAXED_TOKENS_FILE = 'taxed.json';
+export const BANNED_TOKENS_FILE = 'src/bannedtax.json';
+// Every classified token, clean ones included, so each is simulated once
+export const TOKEN_CLASSIFICATION_FILE = '.cache/tokens.json';
+
+/**
+ * Symbol, name and decimals of every graph token (src/tokens.ts), read with multicall in
+ * batches of TOKEN_METADATA_BATCH_SIZE tokens and cached here. Amounts are logged and
+ * notified in whole tokens with these decimals.
+ */
+export const TOKEN_METADATA_FILE = '.cache/token-metadata.json';
+export const TOKEN_METADATA_BATCH_SIZE = 100;
+
 // Gas fee settings (in Gwei)
-export const GAS_LIMIT = 500000n;
+// Base fee assumed until the first block is seen
 export const BASE_FEE = parseGwei("3750");
+export const PRIORITY_FEE = parseGwei("1");
+
+/**
+ * Gas used by NArb executions, estimated as a fixed cost per mode (flash loan for cycles,
+ * contract balance for direct routes) plus a cost per swap hop.
+ * Opportunities are ranked and filtered on net profit: gross profit minus this gas at the
+ * current base fee plus PRIORITY_FEE, valued in the start token through the price oracle.
+ */
+export const GAS_OVERHEAD = { flash: 110000n, direct: 60000n } as const;
+export const GAS_PER_HOP = 90000n;
+// Gas limit sent over the estimate, in percent
+export const GAS_LIMIT_MARGIN = 30n;
 
 // Telegram notification settings
 export const TELEGRAM_BOT_TOKEN = process.env.TELEGRAM_BOT_TOKEN || '';
@@ -1,15 +1,33 @@
 import { type Address, createPublicClient, http, parseAbiItem, formatUnits, decodeEventLog, type PublicClient } from 'viem';
 import { ArbitrageGraph } from './graph';
-import { DEBUG, ADDRESSES, WSS_ENABLED } from './constants';
+import { DEBUG, ADDRESSES, WSS_ENABLED, FACTORY, NEW_PAIR_ADMISSION_WINDOW_MS, TAX_CHECK_ENABLED } from './constants';
 import { findAndLogArbitrageOpportunities } from "./opp";
+import { applyV3Swap, applyV3LiquidityChange, getVirtualReserves } from './v3';
+import { type PairInfo, isTokenAllowed, listedPairToPairInfo } from './getinfo';
+import { classifyNewTokens } from './classifier';
+import { PairFilterPipeline } from './filters';
+import { ReserveReconciler } from './reconciler';
+import { tokenRegistry } from './tokens';
 
 // ABI for both types of Sync events
 const SYNC_EVENT_ABI = [
     parseAbiItem('event Sync(uint112 reserve0, uint112 reserve1)'),
     parseAbiItem('event Sync(uint256 reserve0, uint256 reserve1)')
 ];
-//dunno if am to add the v3 sync abi to the sync event yet
-// event Swap(address,address,int256,int256,uint160,uint128,int24)
+
+// Uniswap V3 pool events: Swap carries the new price and liquidity, Mint/Burn change the ticks
+const V3_EVENT_ABI = [
+    parseAbiItem('event Swap(address indexed sender, address indexed recipient, int256 amount0, int256 amount1, uint160 sqrtPriceX96, uint128 liquidity, int24 tick)'),
+    parseAbiItem('event Mint(address sender, address indexed owner, int24 indexed tickLower, int24 indexed tickUpper, uint128 amount, uint256 amount0, uint256 amount1)'),
+    parseAbiItem('event Burn(address indexed owner, int24 indexed tickLower, int24 indexed tickUpper, uint128 amount, uint256 amount0, uint256 amount1)')
+];
+
+// Emitted by UniswapV2 style factories and by Solidly/Hermes style ones, which also tell whether
+// the pair is stable. Every argument is named so logs decode to named args.
+const PAIR_CREATED_EVENT_ABI = [
+    parseAbiItem('event PairCreated(address indexed token0, address indexed token1, address pair, uint256 allPairsLength)'),
+    parseAbiItem('event PairCreated(address indexed token0, address indexed token1, bool stable, address pair, uint256 allPairsLength)')
+];
 
 // Sync event topics
 const SYNC_TOPIC_UINT112 = '0x1c411e9a96e071241c2f21f7726b17ae89e3cab4c78be50e062b03a9fffbbad1';
@@ -32,7 +50,22 @@ export class EventMonitor {
     private isRunning: boolean = false;
     private isCheckingArbitrage: boolean = false;
     private unwatchFn: any;
-    private pendingUpdates: ReserveUpdate[] = [];
+    private unwatchV3Fn: any;
+    private unwatchBlocksFn: any;
+    private unwatchPairCreatedFn: (() => void) | null = null;
+    // One Sync subscription over the pairs created since start(), pending or admitted, which the
+    // main Sync subscription doesn't cover. Re-created as the set changes.
+    private unwatchNewPairsFn: (() => void) | null = null;
+    private newPairsWatch: Promise<void> = Promise.resolve();
+    // Pairs created after startup that haven't passed the pair filters yet, by lowercase address,
+    // with the time they are dropped at
+    private pendingNewPairs: Map<string, { pair: PairInfo; expiresAt: number }> = new Map();
+    // Pairs admitted to the graph since start(), until a restart adds them to the main subscription
+    private admittedNewPairs: Set<Address> = new Set();
+    // Re-reads reserves in the background to correct missed Sync events
+    private reconciler: ReserveReconciler;
+    // Pairs updated while an arbitrage check was running
+    private pendingPairs: Set<Address> = new Set();
     private networkConfig: any;
     private usingWebSocket: boolean = false;
     private wsReconnectAttempts: number = 0;
@@ -42,6 +75,8 @@ export class EventMonitor {
         this.graph = graph;
         this.networkConfig = networkConfig;
         this.client = networkConfig.client;
+        // Corrections take the same path as Sync updates, arbitrage checks included
+        this.reconciler = new ReserveReconciler(graph, networkConfig.client, updates => this.processUpdates(updates));
         
         // Use WebSocket client if available
         if (WSS_ENABLED && networkConfig.wsClient) {
@@ -63,6 +98,8 @@ export class EventMonitor {
 
         // Get all pair addresses from graph for validation
         const pairAddresses = this.graph.getPairAddresses();
+        // Pairs admitted before a restart are covered by the main subscription from now on
+        this.admittedNewPairs.clear();
         
         console.log(`Starting event monitor for ${pairAddresses.length} pairs...`);
         if (DEBUG) {
@@ -88,6 +125,45 @@ export class EventMonitor {
                 strict: true
             });
 
+            // V3 pools don't emit Sync, their state follows Swap/Mint/Burn instead
+            const v3PoolAddresses = this.graph.getV3PoolAddresses();
+            if (v3PoolAddresses.length > 0) {
+                this.unwatchV3Fn = await eventClient.watchContractEvent({
+                    address: v3PoolAddresses,
+                    abi: V3_EVENT_ABI,
+                    onLogs: this.handleV3Events.bind(this),
+                    onError: this.onError.bind(this),
+                    strict: true
+                });
+                console.log(`Watching ${v3PoolAddresses.length} V3 pools`);
+            }
+
+            // New pools are picked up without touching the existing subscriptions
+            if (this.unwatchPairCreatedFn) this.unwatchPairCreatedFn();
+            this.unwatchPairCreatedFn = await eventClient.watchContractEvent({
+                address: FACTORY.map(factory => factory.address),
+                abi: PAIR_CREATED_EVENT_ABI,
+                onLogs: this.handlePairCreatedEvents.bind(this),
+                onError: this.onError.bind(this),
+                strict: true
+            });
+
+            // Pairs created before a restart may still be pending
+            this.watchPendingNewPairs();
+
+            // Gas of opportunities is priced at the latest base fee
+            if (this.unwatchBlocksFn) this.unwatchBlocksFn();
+            this.unwatchBlocksFn = eventClient.watchBlocks({
+                onBlock: block => {
+                    if (block.baseFeePerGas !== null) this.graph.setBaseFee(block.baseFeePerGas);
+                    this.expirePendingNewPairs();
+                },
+                onError: this.onError.bind(this)
+            });
+
+            // Missed events are caught by re-reading reserves in rotation
+            this.reconciler.start();
+
             console.log('Event monitoring started successfully');
             
             // Store unwatch function for cleanup
@@ -186,6 +262,8 @@ export class EventMonitor {
             
             // Collect all valid updates
             const updates: ReserveUpdate[] = [];
+            // Latest Sync of each pending new pair in the batch
+            const newPairLogs: Map<string, any> = new Map();
             
             for (const log of logs) {
                 // Custom logging to handle BigInt values - convert all BigInt to strings
@@ -195,6 +273,10 @@ export class EventMonitor {
                 
                 // Check if this pair is in our graph before proceeding
                 const lowercaseAddress = log.address?.toLowerCase();
+                if (this.pendingNewPairs.has(lowercaseAddress)) {
+                    newPairLogs.set(lowercaseAddress, log);
+                    continue;
+                }
                 if (!validPairs.has(lowercaseAddress)) {
                     if (DEBUG) {
                         console.log(`Skipping event from unknown pair: ${lowercaseAddress}`);
@@ -204,6 +286,7 @@ export class EventMonitor {
 
                 // Get the original case address for updating the graph
                 const pairAddress = addressMap.get(lowercaseAddress) as Address;
+                if (log.blockNumber) this.graph.setBlockNumber(BigInt(log.blockNumber));
 
                 if (DEBUG) console.log('Raw event log:', JSON.stringify(logForDisplay, null, 2));
 
@@ -225,47 +308,276 @@ export class EventMonitor {
                 updates.push({ pairAddress, reserve0, reserve1 });
             }
 
-            // If we're currently checking arbitrage, add these updates to pending queue
-            if (this.isCheckingArbitrage) {
-                if (DEBUG) console.log(`Adding ${updates.length} updates to pending queue`);
-                this.pendingUpdates.push(...updates);
-                return;
+            // Process all updates at once. Reserves are applied before processUpdates first
+            // yields, so admission (which may wait on a classification call) runs beside the check.
+            const processed = this.processUpdates(updates);
+            if (newPairLogs.size > 0) this.admitNewPairs(newPairLogs);
+            await processed;
+
+        } catch (error) {
+            console.error('Error handling Sync events:', error);
+        }
+    }
+
+    // Admit the pending new pairs a batch of Syncs funded and check them through the regular
+    // update path, apart from the batch that brought them
+    private async admitNewPairs(logs: Map<string, any>): Promise<void> {
+        try {
+            const admitted = await Promise.all(
+                Array.from(logs, ([lowercaseAddress, log]) => this.admitNewPair(lowercaseAddress, log))
+            );
+            await this.processUpdates(admitted.filter((update): update is ReserveUpdate => update !== null));
+        } catch (error) {
+            console.error('Error admitting new pairs:', error);
+        }
+    }
+
+    // Queue pools created after startup and subscribe to their Sync events. They join the
+    // graph on a Sync that passes the pair filters, usually when liquidity is first added.
+    private async handlePairCreatedEvents(logs: any[]) {
+        try {
+            const newPairs: PairInfo[] = [];
+
+            for (const log of logs) {
+                const factory = FACTORY.find(f => f.address.toLowerCase() === log.address?.toLowerCase());
+                if (!factory) continue;
+
+                const { token0, token1, pair: pairAddress, stable } = log.args as { token0: Address; token1: Address; pair: Address; stable?: boolean };
+                if (this.graph.getPair(pairAddress) || this.pendingNewPairs.has(pairAddress.toLowerCase())) continue;
+
+                if (!isTokenAllowed(token0) || !isTokenAllowed(token1)) {
+                    if (DEBUG) console.log(`Ignoring new ${factory.name} pair ${pairAddress} with a banned or heavily taxed token`);
+                    continue;
+                }
+
+                const pair = listedPairToPairInfo({ pairAddress, token0, token1, factory: factory.name, fee: factory.fee, index: -1 });
+
+                // Stable pools of Hermes style factories are priced with their own invariant,
+                // which needs the token decimals
+                if (stable && factory.volatile) {
+                    await tokenRegistry.load(this.client, [token0, token1]);
+                    const [info0, info1] = [tokenRegistry.getToken(token0), tokenRegistry.getToken(token1)];
+                    if (!info0 || !info1) {
+                        if (DEBUG) console.log(`Ignoring new stable ${factory.name} pair ${pairAddress}, token decimals unknown`);
+                        continue;
+                    }
+                    Object.assign(pair, {
+                        stable: true,
+                        decimals0: 10n ** BigInt(info0.decimals),
+                        decimals1: 10n ** BigInt(info1.decimals),
+                        fee: factory.stableFee ?? pair.fee,
+                    });
+                }
+
+                newPairs.push(pair);
+            }
+            if (newPairs.length === 0) return;
+            // Decimals for the minimum reserve filter at admission
+            await tokenRegistry.load(this.client, newPairs.flatMap(pair => [pair.token0, pair.token1]));
+
+            const expiresAt = Date.now() + NEW_PAIR_ADMISSION_WINDOW_MS;
+            for (const pair of newPairs) {
+                this.pendingNewPairs.set(pair.pairAddress.toLowerCase(), { pair, expiresAt });
+            }
+            await this.watchPendingNewPairs();
+
+            console.log(`Watching ${newPairs.length} newly created pairs: ${newPairs.map(pair => pair.pairAddress).join(', ')}`);
+        } catch (error) {
+            console.error('Error handling PairCreated events:', error);
+        }
+    }
+
+    // Replace the Sync subscription of the new pairs with one over the current pending and
+    // admitted ones, leaving the main subscription alone.
+    // Calls are chained, so overlapping changes can't leave a subscription behind.
+    private watchPendingNewPairs(): Promise<void> {
+        this.newPairsWatch = this.newPairsWatch.then(async () => {
+            if (this.unwatchNewPairsFn) this.unwatchNewPairsFn();
+            this.unwatchNewPairsFn = null;
+
+            // Admitted pairs removed from the graph since, e.g. with a denylisted token, are dropped
+            for (const pairAddress of this.admittedNewPairs) {
+                if (!this.graph.getPair(pairAddress)) this.admittedNewPairs.delete(pairAddress);
+            }
+            const addresses = [
+                ...Array.from(this.pendingNewPairs.values(), ({ pair }) => pair.pairAddress),
+                ...this.admittedNewPairs,
+            ];
+            if (!this.isRunning || addresses.length === 0) return;
+
+            const eventClient = this.usingWebSocket && this.wsClient ? this.wsClient : this.client;
+            this.unwatchNewPairsFn = await eventClient.watchContractEvent({
+                address: addresses,
+                abi: SYNC_EVENT_ABI,
+                onLogs: this.handleSyncEvents.bind(this),
+                onError: this.onError.bind(this),
+                strict: true
+            });
+        }).catch(error => {
+            console.error('Failed to watch pending new pairs:', error);
+        });
+        return this.newPairsWatch;
+    }
+
+    // Drop pending new pairs no Sync admitted in time, e.g. never funded or below the filters
+    private expirePendingNewPairs(): void {
+        const now = Date.now();
+        let expired = 0;
+        for (const [lowercaseAddress, { pair, expiresAt }] of this.pendingNewPairs) {
+            if (expiresAt > now) continue;
+            this.pendingNewPairs.delete(lowercaseAddress);
+            expired++;
+            if (DEBUG) console.log(`Dropping new ${pair.factory} pair ${pair.pairAddress}, not admitted in time`);
+        }
+        if (expired > 0) this.watchPendingNewPairs();
+    }
+
+    // Add a pending new pair to the graph once a Sync gives it reserves that pass the pair
+    // filters; until then it stays pending. New tokens get the round trip check of the
+    // startup tokens first, now that the pair has liquidity to trade through.
+    // Returns the reserve update to check it with.
+    private async admitNewPair(lowercaseAddress: string, log: any): Promise<ReserveUpdate | null> {
+        // Expired, or already taken by the admission of an earlier batch
+        const entry = this.pendingNewPairs.get(lowercaseAddress);
+        if (!entry) return null;
+        const decodedEvent = this.decodeSyncEvent(log);
+        if (!decodedEvent) return null;
+
+        let pair: PairInfo = {
+            ...entry.pair,
+            ...decodedEvent,
+            lastTimestamp: Math.floor(Date.now() / 1000),
+        };
+        // Listing and reserve filters of the startup crawl, the pair's own pool counted with the graph's
+        const pipeline = new PairFilterPipeline();
+        const poolCount = (token: Address) => this.graph.getPoolCount(token) + 1;
+        // Rejections are logged by the pipeline in DEBUG, the pair stays pending
+        if (pipeline.run('listing', [pair], poolCount).length === 0 || pipeline.run('reserves', [pair], poolCount).length === 0) {
+            return null;
+        }
+
+        // No longer pending, so Syncs arriving during the check don't start another one
+        this.pendingNewPairs.delete(lowercaseAddress);
+
+        if (TAX_CHECK_ENABLED) {
+            // Tokens are checked through their deepest WCRO pair, the graph's or this one
+            const related = this.graph.getAllPairs().filter(other =>
+                [other.token0, other.token1].some(token => token === pair.token0 || token === pair.token1)
+            );
+            try {
+                const [checked] = (await classifyNewTokens(this.client, [pair, ...related]))
+                    .filter(other => other.pairAddress === pair.pairAddress);
+                if (!checked) {
+                    console.log(`Dropping new ${pair.factory} pair ${pair.pairAddress}, a token can't be sold or is taxed above the limit`);
+                    for (const token of [pair.token0, pair.token1]) {
+                        if (!isTokenAllowed(token)) this.graph.denylistToken(token);
+                    }
+                    this.watchPendingNewPairs();
+                    return null;
+                }
+                pair = { ...pair, tax0: checked.tax0, tax1: checked.tax1 };
+            } catch (error) {
+                // Checked again on the next Sync
+                console.error(`Failed to classify the tokens of new pair ${pair.pairAddress}:`, error);
+                this.pendingNewPairs.set(lowercaseAddress, entry);
+                return null;
             }
+        }
+
+        this.graph.addPair(pair);
+        this.admittedNewPairs.add(pair.pairAddress);
+        this.watchPendingNewPairs();
+        console.log(`Added new ${pair.factory} pair ${pair.pairAddress} (${pair.token0}/${pair.token1})`);
+
+        return { pairAddress: pair.pairAddress, reserve0: pair.reserve0, reserve1: pair.reserve1 };
+    }
+
+    private async handleV3Events(logs: any[]) {
+        try {
+            if (DEBUG) console.log(`Received ${logs.length} V3 events`);
+
+            const poolAddresses = this.graph.getV3PoolAddresses();
+            const addressMap = new Map(poolAddresses.map(addr => [addr.toLowerCase(), addr]));
+            const touchedPools = new Set<Address>();
+
+            for (const log of logs) {
+                const poolAddress = addressMap.get(log.address?.toLowerCase());
+                const pool = poolAddress && this.graph.getV3Pool(poolAddress);
+                if (!poolAddress || !pool) {
+                    if (DEBUG) console.log(`Skipping event from unknown V3 pool: ${log.address}`);
+                    continue;
+                }
+
+                if (log.blockNumber) this.graph.setBlockNumber(BigInt(log.blockNumber));
+
+                try {
+                    const decoded = decodeEventLog({
+                        abi: V3_EVENT_ABI,
+                        data: log.data,
+                        topics: log.topics
+                    });
+
+                    // Events must be applied in order, so state changes happen immediately
+                    if (log.topics[0] === SYNC_TOPIC_V3 && decoded.eventName === 'Swap') {
+                        applyV3Swap(pool, decoded.args.sqrtPriceX96, decoded.args.liquidity, decoded.args.tick);
+                    } else if (decoded.eventName === 'Mint') {
+                        applyV3LiquidityChange(pool, decoded.args.tickLower, decoded.args.tickUpper, decoded.args.amount);
+                    } else if (decoded.eventName === 'Burn') {
+                        applyV3LiquidityChange(pool, decoded.args.tickLower, decoded.args.tickUpper, -decoded.args.amount);
+                    }
+                    touchedPools.add(poolAddress);
+                } catch (error) {
+                    console.error('Failed to decode V3 event:', error);
+                }
+            }
+
+            // Feed the new virtual reserves through the regular update path
+            const updates: ReserveUpdate[] = Array.from(touchedPools, pairAddress => ({
+                pairAddress,
+                ...getVirtualReserves(this.graph.getV3Pool(pairAddress)!)
+            }));
 
-            // Process all updates at once
             await this.processUpdates(updates);
 
         } catch (error) {
-            console.error('Error handling Sync events:', error);
+            console.error('Error handling V3 events:', error);
         }
     }
 
     private async processUpdates(updates: ReserveUpdate[]) {
         if (updates.length === 0) return;
 
+        if (DEBUG) console.log(`Processing ${updates.length} reserve updates`);
+
+        // Reserves are applied right away, even while a search runs in the workers
+        let updatedPairs: Address[];
         try {
-            if (DEBUG) console.log(`Processing ${updates.length} reserve updates`);
-            
-            // Update all reserves at once using batch update
-            try {
-                this.graph.updatePairReservesBatch(updates);
-                if (DEBUG) console.log(`Successfully updated ${updates.length} pairs`);
-            } catch (error) {
-                console.error('Failed to update reserves:', error);
-                return;
-            }
+            updatedPairs = this.graph.updatePairReservesBatch(updates);
+            if (DEBUG) console.log(`Successfully updated ${updates.length} pairs`);
+        } catch (error) {
+            console.error('Failed to update reserves:', error);
+            return;
+        }
+
+        // If we're currently checking arbitrage, only remember which pairs need a re-check
+        if (this.isCheckingArbitrage) {
+            if (DEBUG) console.log(`Adding ${updatedPairs.length} pairs to pending re-check`);
+            updatedPairs.forEach(pair => this.pendingPairs.add(pair));
+            return;
+        }
 
+        try {
             // Check for arbitrage opportunities only once after all updates
             this.isCheckingArbitrage = true;
             // if (DEBUG) 
             console.log('Starting arbitrage check after batch update...');
-            await this.checkArbitrageOpportunities();
+            await this.checkArbitrageOpportunities(updatedPairs);
 
-            // Process any pending updates that came during arbitrage check
-            if (this.pendingUpdates.length > 0) {
-                const pendingUpdates = [...this.pendingUpdates];
-                this.pendingUpdates = [];
-                await this.processUpdates(pendingUpdates);
+            // Re-check the pairs that changed during the arbitrage check
+            while (this.pendingPairs.size > 0) {
+                const pendingPairs = Array.from(this.pendingPairs);
+                this.pendingPairs.clear();
+                await this.checkArbitrageOpportunities(pendingPairs);
             }
 
         } finally {
@@ -273,10 +585,10 @@ export class EventMonitor {
         }
     }
 
-    private async checkArbitrageOpportunities() {
+    private async checkArbitrageOpportunities(updatedPairs: Address[]) {
         try {
-            // Search for arbitrage opportunities
-            await findAndLogArbitrageOpportunities(this.graph, this.networkConfig);
+            // Search only the cycles touched by the updated pairs
+            await findAndLogArbitrageOpportunities(this.graph, this.networkConfig, updatedPairs);
         } catch (error) {
             console.error('Error checking arbitrage opportunities:', error);
         }
@@ -287,11 +599,17 @@ export class EventMonitor {
         
         this.isRunning = false;
         if (DEBUG) console.log('Stopping event monitor...');
+        this.reconciler.stop();
         
         // Unsubscribe from events
         if (this.unwatchFn) {
             try {
                 await this.unwatchFn();
+                if (this.unwatchV3Fn) await this.unwatchV3Fn();
+                if (this.unwatchBlocksFn) this.unwatchBlocksFn();
+                if (this.unwatchPairCreatedFn) this.unwatchPairCreatedFn();
+                this.unwatchPairCreatedFn = null;
+                await this.watchPendingNewPairs();
                 if (DEBUG) console.log('Successfully unsubscribed from events');
             } catch (error) {
                 console.error('Error unsubscribing from events:', error);
@@ -311,8 +629,8 @@ export class EventMonitor {
             }
         }
         
-        // Clear any pending updates
-        this.pendingUpdates = [];
+        // Clear any pending re-checks
+        this.pendingPairs.clear();
     }
 
     private async restart() {
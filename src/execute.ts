@@ -1,22 +1,34 @@
-import { type Address, createPublicClient, http, parseAbiItem, formatUnits, parseGwei } from 'viem';
-import { ArbitrageGraph } from './graph';
-import { ARB_CONTRACT, DEBUG, GAS_LIMIT } from './constants';
+import { type Address, createPublicClient, http, parseAbiItem, parseGwei } from 'viem';
+import { ArbitrageGraph, type ReserveOverlay } from './graph';
+import { ARB_CONTRACT, DEBUG, GAS_LIMIT_MARGIN, PRIORITY_FEE } from './constants';
 import ArbABI from './ABI/Arb.json';
 import { type NetworkConfig } from './network';
 import { NonceManager, createNonceManager } from './nonce';
 import { notificationService } from './Notify';
+import { selectOpportunities } from './selection';
+import { tokenRegistry } from './tokens';
+
+const ERC20_BALANCE_OF = parseAbiItem('function balanceOf(address account) view returns (uint256)');
 
 interface ArbitrageOpportunity {
     path: Address[];
     pairs: Address[];
     fees: number[];
     optimalAmount: bigint;
+    // Gross of gas, netProfit subtracts the estimated gas cost (start token units)
     expectedProfit: bigint;
+    netProfit: bigint;
+    gasEstimate: bigint;
+    // Least final amount for direct execution, in the path's last token
+    minAmountOut: bigint;
+    // Reserves left by the opportunities sent before it in the batch
+    overlay?: ReserveOverlay;
+    // Graph snapshot for replaying the opportunity offline
+    snapshotFile?: string;
 }
 
-// Keeps track of executed pairs to avoid conflicts
+// Selects and executes batches of opportunities
 export class OpportunityManager {
-    private usedPairs: Set<string> = new Set();
     private networkConfig: NetworkConfig;
     private nonceManager: NonceManager;
 
@@ -30,61 +42,48 @@ export class OpportunityManager {
         await this.nonceManager.initialize(this.networkConfig.client);
     }
 
-    // Check if an opportunity conflicts with already executed pairs
-    private hasConflict(pairs: Address[]): boolean {
-        return pairs.some(pair => this.usedPairs.has(pair.toLowerCase()));
-    }
-    // Mark pairs as used after execution
-    private markPairsAsUsed(pairs: Address[]): void {
-        pairs.forEach(pair => this.usedPairs.add(pair.toLowerCase()));
-    }
-
     // Process and execute a batch of opportunities
     async processOpportunities(
         graph: ArbitrageGraph,
         opportunities: ArbitrageOpportunity[]
     ): Promise<void> {
-        // Sort opportunities by expected profit (descending)
-        const sortedOpps = [...opportunities].sort((a, b) => 
-            Number(b.expectedProfit - a.expectedProfit)
-        );
+        // Pick the sequence with the highest total profit, re-simulating each opportunity on
+        // the reserves left by the ones before it, shared pairs included
+        const { selected } = selectOpportunities(graph, opportunities);
 
         if (DEBUG) {
-            console.log(`Processing ${sortedOpps.length} opportunities in profit order`);
+            console.log(`Processing ${selected.length} of ${opportunities.length} opportunities in selection order`);
         }
 
-        for (const opp of sortedOpps) {
-            // Skip if any pairs conflict
-            if (this.hasConflict(opp.pairs)) {
-                if (DEBUG) {
-                    console.log('Skipping opportunity due to pair conflict:', {
-                        pairs: opp.pairs,
-                        usedPairs: Array.from(this.usedPairs)
-                    });
-                }
-                continue;
-            }
+        // Later amounts assume the earlier transactions land first, so send them in order
+        for (const selection of selected) {
+            const opp: ArbitrageOpportunity = {
+                ...selection.opportunity,
+                optimalAmount: selection.amountIn,
+                expectedProfit: selection.profit,
+                netProfit: selection.netProfit,
+                gasEstimate: selection.gasEstimate,
+                minAmountOut: selection.minAmountOut,
+                overlay: selection.overlay,
+            };
             try {
                 // Execute the opportunity
                 await this.executeArbitrageOpportunity(graph, opp);
 
-                // Mark pairs as used only after successful execution
-                this.markPairsAsUsed(opp.pairs);
                 if (DEBUG) {
                     console.log('Successfully executed opportunity:', {
-                        profit: formatUnits(opp.expectedProfit, 18),
+                        profit: tokenRegistry.formatAmount(opp.path[0], opp.expectedProfit),
+                        netProfit: tokenRegistry.formatAmount(opp.path[0], opp.netProfit),
                         pairs: opp.pairs
                     });
                 }
             } catch (error) {
                 if (DEBUG) {
-                    console.error('Failed to execute opportunity:', error);
+                    const snapshotInfo = opp.snapshotFile ? ` (snapshot: ${opp.snapshotFile})` : '';
+                    console.error(`Failed to execute opportunity${snapshotInfo}:`, error);
                 }
             }
         }
-        
-        // Clear used pairs after processing batch
-        this.usedPairs.clear();
     }
 
     private async executeArbitrageOpportunity(
@@ -98,7 +97,7 @@ export class OpportunityManager {
         if (isCircular) {
             await this.executeWithFlashswap(graph, opportunity);
         } else {
-            await this.executeDirectly(opportunity);
+            await this.executeDirectly(graph, opportunity);
         }
     }
 
@@ -131,15 +130,21 @@ export class OpportunityManager {
                 pairs: opportunity.pairs,
                 fees: opportunity.fees,
                 repayFee: flashLoanPair.fee,
-                expectedProfit: formatUnits(opportunity.expectedProfit, 18)
+                expectedProfit: tokenRegistry.formatAmount(startToken, opportunity.expectedProfit),
+                netProfit: tokenRegistry.formatAmount(startToken, opportunity.netProfit)
             });
         }
 
         // Get next nonce
         const nonce = this.nonceManager.getAndIncrement();
 
-        // Calculate dynamic gas fees based on opportunity's expected profit
-        const { maxFeePerGas, maxPriorityFeePerGas } = this.calculateGasFees(opportunity.expectedProfit);
+        // Gas limit from the route's estimate, fee cap bounded by the expected profit
+        const { gas, maxFeePerGas, maxPriorityFeePerGas } = this.calculateGasFees(
+            graph,
+            startToken,
+            opportunity.expectedProfit,
+            opportunity.gasEstimate
+        );
 
         // Send transaction directly with gas parameters
         const hash = await this.networkConfig.walletClient.writeContract({
@@ -159,7 +164,7 @@ export class OpportunityManager {
             nonce,
             maxFeePerGas,
             maxPriorityFeePerGas,
-            gas: GAS_LIMIT,
+            gas,
             type: 'eip1559' as const
         });
         
@@ -175,28 +180,70 @@ export class OpportunityManager {
         await notificationService.sendTransactionNotification(
             hash,
             'flashswap',
-            opportunity.expectedProfit
+            startToken,
+            opportunity.expectedProfit,
+            opportunity.netProfit
         );
     }
 
     private async executeDirectly(
+        graph: ArbitrageGraph,
         opportunity: ArbitrageOpportunity
     ): Promise<void> {
+        if (!ARB_CONTRACT || !ARB_CONTRACT.match(/^0x[a-fA-F0-9]{40}$/)) {
+            throw new Error('Invalid ARB_CONTRACT address');
+        }
+
+        const startToken = opportunity.path[0];
+
+        // Trade from the contract's own balance, capped at what it holds
+        const balance = await this.networkConfig.client.readContract({
+            address: startToken,
+            abi: [ERC20_BALANCE_OF],
+            functionName: 'balanceOf',
+            args: [ARB_CONTRACT as Address]
+        });
+        if (balance === 0n) {
+            throw new Error(`Arbitrage contract holds no ${startToken} for direct arbitrage`);
+        }
+
+        // With less than the optimal amount, re-evaluate the route at the balance (on the reserves
+        // the batch leaves before it): gas and the profit threshold don't shrink with the input,
+        // so the route may no longer pay
+        let { optimalAmount: startAmount, minAmountOut, expectedProfit, netProfit } = opportunity;
+        if (balance < startAmount) {
+            const evaluation = graph.evaluateRoute(opportunity.path, opportunity.pairs, opportunity.overlay, balance);
+            if (!evaluation) {
+                throw new Error(`Direct arbitrage from the ${tokenRegistry.formatAmount(startToken, balance)} held ` +
+                    'no longer clears the profit threshold net of gas');
+            }
+            ({ amountIn: startAmount, minAmountOut, profit: expectedProfit, netProfit } = evaluation);
+        }
+
         if (DEBUG) {
             console.log('Executing arbitrage directly:', {
-                startToken: opportunity.path[0],
-                startAmount: opportunity.optimalAmount.toString(),
+                startToken,
+                startAmount: startAmount.toString(),
+                optimalAmount: opportunity.optimalAmount.toString(),
+                finalToken: opportunity.path[opportunity.path.length - 1],
+                minAmountOut: minAmountOut.toString(),
                 pairs: opportunity.pairs,
                 fees: opportunity.fees,
-                expectedProfit: formatUnits(opportunity.expectedProfit, 18)
+                expectedProfit: tokenRegistry.formatAmount(startToken, expectedProfit),
+                netProfit: tokenRegistry.formatAmount(startToken, netProfit)
             });
         }
 
         // Get next nonce
         const nonce = this.nonceManager.getAndIncrement();
 
-        // Calculate dynamic gas fees based on opportunity's expected profit
-        const { maxFeePerGas, maxPriorityFeePerGas } = this.calculateGasFees(opportunity.expectedProfit);
+        // Gas limit from the route's estimate, fee cap bounded by the expected profit
+        const { gas, maxFeePerGas, maxPriorityFeePerGas } = this.calculateGasFees(
+            graph,
+            startToken,
+            expectedProfit,
+            opportunity.gasEstimate
+        );
 
         // Send transaction directly with gas parameters
         const hash = await this.networkConfig.walletClient.writeContract({
@@ -204,17 +251,18 @@ export class OpportunityManager {
             abi: ArbABI,
             functionName: 'executeArbitrageDirect',
             args: [
-                opportunity.path[0],          // startToken
-                opportunity.optimalAmount,    // startAmount
+                startToken,                   // startToken
+                startAmount,                  // startAmount
                 opportunity.pairs,            // arbPairs
-                opportunity.fees              // arbFees
+                opportunity.fees,             // arbFees
+                minAmountOut                  // minFinalAmount
             ],
             chain: this.networkConfig.walletClient.chain,
             account: this.networkConfig.account,
             nonce,
             maxFeePerGas,
             maxPriorityFeePerGas,
-            gas: GAS_LIMIT,
+            gas,
             type: 'eip1559' as const
         });
 
@@ -230,22 +278,34 @@ export class OpportunityManager {
         await notificationService.sendTransactionNotification(
             hash,
             'direct',
-            opportunity.expectedProfit
+            startToken,
+            expectedProfit,
+            netProfit
         );
     }
 
-    // Helper function to calculate dynamic gas fees based on expected profit
-    public calculateGasFees(expectedProfit: bigint): { maxFeePerGas: bigint, maxPriorityFeePerGas: bigint } {
-        // Use 90% of expected profit as total gas fee budget
-        const totalGasFee = (expectedProfit * 90n) / 100n;
-        
-        // Calculate maxFeePerGas with (totalGasFee * 1_000_000_000) / gasLimit
-        const maxFeePerGas = (totalGasFee * 1n) /  GAS_LIMIT;
-        
-        // // Use same value for maxPriorityFeePerGas as maxFeePerGas
-        const maxPriorityFeePerGas = maxFeePerGas;
-        
+    /**
+     * Gas limit from the route's estimate plus GAS_LIMIT_MARGIN percent. The fee cap allows the
+     * base fee to double before inclusion, but never lets the whole gas bill exceed the gross
+     * expected profit valued in CRO.
+     */
+    public calculateGasFees(
+        graph: ArbitrageGraph,
+        startToken: Address,
+        expectedProfit: bigint,
+        gasEstimate: bigint
+    ): { gas: bigint, maxFeePerGas: bigint, maxPriorityFeePerGas: bigint } {
+        const gas = (gasEstimate * (100n + GAS_LIMIT_MARGIN)) / 100n;
+
+        let maxFeePerGas = graph.getBaseFee() * 2n + PRIORITY_FEE;
+        const budget = graph.valueIn(startToken, expectedProfit);
+        if (budget !== null && budget / gas < maxFeePerGas) {
+            maxFeePerGas = budget / gas;
+        }
+        const maxPriorityFeePerGas = maxFeePerGas < PRIORITY_FEE ? maxFeePerGas : PRIORITY_FEE;
+
         return {
+            gas,
             maxFeePerGas,
             maxPriorityFeePerGas
         };
@@ -0,0 +1,171 @@
+import { BaseError, ContractFunctionRevertedError, type createPublicClient } from 'viem';
+import { DEBUG, FETCH_CONCURRENCY, FETCH_RATE_LIMIT, FETCH_MAX_RETRIES, FETCH_BACKOFF_MS } from './constants';
+
+/**
+ * A pair (or pair index) that could not be fetched and was left out of the graph
+ */
+export type SkippedItem = {
+    stage: string;
+    factory: string;
+    item: string;
+    reason: string;
+};
+
+/**
+ * Collects what a crawl had to skip so it can be listed once at the end
+ */
+export class FetchReport {
+    readonly skipped: SkippedItem[] = [];
+
+    skip(stage: string, factory: string, item: string, reason: string): void {
+        this.skipped.push({ stage, factory, item, reason });
+        if (DEBUG) console.log(`Skipping ${stage} of ${factory} ${item}: ${reason}`);
+    }
+
+    log(): void {
+        if (this.skipped.length === 0) {
+            console.log('Nothing skipped while fetching');
+            return;
+        }
+
+        console.log(`Skipped ${this.skipped.length} items while fetching:`);
+        console.table(this.skipped);
+    }
+}
+
+/**
+ * Short description of a failed request
+ */
+export function describeError(error: unknown): string {
+    if (error instanceof BaseError) return error.shortMessage;
+    return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Reverts fail the same way on every attempt, so they aren't retried
+ */
+function isRevert(error: unknown): boolean {
+    if (error instanceof BaseError) {
+        if (error.walk(e => e instanceof ContractFunctionRevertedError)) return true;
+        return /revert/i.test(error.shortMessage);
+    }
+    return false;
+}
+
+function sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Runs the requests of one RPC endpoint with bounded concurrency, a request rate limit
+ * and exponential backoff on transient failures.
+ */
+export class RpcFetcher {
+    private active = 0;
+    private waiting: (() => void)[] = [];
+    // Earliest time the next request may start, spaces requests by 1 / rate
+    private nextStart = 0;
+
+    constructor(
+        private readonly concurrency: number = FETCH_CONCURRENCY,
+        private readonly requestsPerSecond: number = FETCH_RATE_LIMIT,
+        private readonly maxRetries: number = FETCH_MAX_RETRIES,
+        private readonly backoffMs: number = FETCH_BACKOFF_MS
+    ) {}
+
+    private async acquire(): Promise<void> {
+        if (this.active >= this.concurrency) {
+            await new Promise<void>(resolve => this.waiting.push(resolve));
+        }
+        this.active++;
+
+        const now = Date.now();
+        const start = Math.max(now, this.nextStart);
+        this.nextStart = start + 1000 / this.requestsPerSecond;
+        if (start > now) await sleep(start - now);
+    }
+
+    private release(): void {
+        this.active--;
+        this.waiting.shift()?.();
+    }
+
+    /**
+     * Run a request, retrying transient failures with exponential backoff (with jitter).
+     * The slot is released while backing off. Reverts and the last failure are thrown.
+     */
+    async request<T>(fn: () => Promise<T>): Promise<T> {
+        for (let attempt = 0; ; attempt++) {
+            await this.acquire();
+            let failure: unknown;
+            try {
+                return await fn();
+            } catch (error) {
+                failure = error;
+            } finally {
+                this.release();
+            }
+
+            if (isRevert(failure) || attempt >= this.maxRetries) throw failure;
+            const delay = this.backoffMs * 2 ** attempt * (1 + Math.random() / 2);
+            if (DEBUG) console.log(`Request failed (${describeError(failure)}), retrying in ${Math.round(delay)}ms`);
+            await sleep(delay);
+        }
+    }
+
+    /**
+     * Fetch items in batches of batchSize, all batches queued at once.
+     * A batch that still fails after its retries is split in half until the failing item
+     * is isolated; onSkip is told about every item given up on. Results keep the item order.
+     */
+    async fetchInBatches<T, R>(
+        items: T[],
+        batchSize: number,
+        fetchBatch: (batch: T[]) => Promise<R[]>,
+        onSkip: (item: T, reason: string) => void
+    ): Promise<R[]> {
+        const batches: T[][] = [];
+        for (let i = 0; i < items.length; i += batchSize) {
+            batches.push(items.slice(i, i + batchSize));
+        }
+
+        const results = await Promise.all(batches.map(batch => this.fetchWithBisection(batch, fetchBatch, onSkip)));
+        return results.flat();
+    }
+
+    private async fetchWithBisection<T, R>(
+        batch: T[],
+        fetchBatch: (batch: T[]) => Promise<R[]>,
+        onSkip: (item: T, reason: string) => void
+    ): Promise<R[]> {
+        try {
+            return await this.request(() => fetchBatch(batch));
+        } catch (error) {
+            if (batch.length === 1) {
+                onSkip(batch[0], describeError(error));
+                return [];
+            }
+
+            const middle = Math.ceil(batch.length / 2);
+            if (DEBUG) console.log(`Batch of ${batch.length} failed (${describeError(error)}), splitting it`);
+            const [first, second] = await Promise.all([
+                this.fetchWithBisection(batch.slice(0, middle), fetchBatch, onSkip),
+                this.fetchWithBisection(batch.slice(middle), fetchBatch, onSkip),
+            ]);
+            return [...first, ...second];
+        }
+    }
+}
+
+// One fetcher per RPC endpoint, so its limits hold across every caller
+const fetchers = new Map<string, RpcFetcher>();
+
+export function getRpcFetcher(client: ReturnType<typeof createPublicClient>): RpcFetcher {
+    const key = (client.transport as { url?: string }).url ?? client.uid;
+    let fetcher = fetchers.get(key);
+    if (!fetcher) {
+        fetcher = new RpcFetcher();
+        fetchers.set(key, fetcher);
+    }
+    return fetcher;
+}
@@ -0,0 +1,182 @@
+import { type Address, parseUnits } from 'viem';
+import { ADDRESSES, DEBUG, PAIR_FILTER_CHAIN, PAIR_FILTER_SETTINGS } from './constants';
+import { type PairInfo, isTokenAllowed } from './getinfo';
+import { tokenRegistry } from './tokens';
+
+export type FilterStage = keyof typeof PAIR_FILTER_CHAIN;
+
+export type FilterContext = {
+    // Pools a token trades in, the pair being filtered included
+    poolCount: (token: Address) => number;
+};
+
+/**
+ * A named admission check, returning why it rejects a pair or null to keep it
+ */
+export type PairFilter = {
+    name: string;
+    reject: (pair: PairInfo, context: FilterContext) => string | null;
+};
+
+export type PairRejection = {
+    pairAddress: Address;
+    factory: string;
+    stage: FilterStage;
+    filter: string;
+    reason: string;
+};
+
+// PAIR_FILTER_SETTINGS.minReserve in a token's raw units
+function minReserveOf(token: Address): bigint {
+    return parseUnits(PAIR_FILTER_SETTINGS.minReserve, tokenRegistry.getToken(token)?.decimals ?? 18);
+}
+
+function monitoredLiquidityReason(pair: PairInfo): string | null {
+    let hasMonitoredToken = false;
+
+    // Monitored tokens need their own LPAMOUNT of liquidity
+    for (const { name, address, LPAMOUNT } of ADDRESSES) {
+        if (pair.token0 === address) {
+            hasMonitoredToken = true;
+            if (pair.reserve0 < BigInt(LPAMOUNT)) return `${name} reserve ${pair.reserve0} < ${LPAMOUNT}`;
+        }
+        if (pair.token1 === address) {
+            hasMonitoredToken = true;
+            if (pair.reserve1 < BigInt(LPAMOUNT)) return `${name} reserve ${pair.reserve1} < ${LPAMOUNT}`;
+        }
+    }
+    if (hasMonitoredToken) return null;
+
+    // For pairs with no monitored tokens, either reserve must meet the minimum requirement
+    const minimum = PAIR_FILTER_SETTINGS.minOtherTokensLiquidity;
+    if (pair.reserve0 >= minimum || pair.reserve1 >= minimum) return null;
+    return `no monitored token and both reserves < ${minimum}`;
+}
+
+/**
+ * Every filter PAIR_FILTER_CHAIN can name
+ */
+export const PAIR_FILTERS: Record<string, PairFilter> = {
+    allowedTokens: {
+        name: 'allowedTokens',
+        reject: pair => {
+            const blocked = [pair.token0, pair.token1].filter(token => !isTokenAllowed(token));
+            return blocked.length > 0 ? `banned or taxed above the limit: ${blocked.join(', ')}` : null;
+        },
+    },
+    poolCount: {
+        name: 'poolCount',
+        reject: (pair, { poolCount }) => {
+            const minimum = PAIR_FILTER_SETTINGS.minTokenPools;
+            const lonely = [pair.token0, pair.token1].filter(token => poolCount(token) < minimum);
+            return lonely.length > 0 ? `in fewer than ${minimum} pools: ${lonely.join(', ')}` : null;
+        },
+    },
+    minReserve: {
+        name: 'minReserve',
+        reject: pair => {
+            const [minimum0, minimum1] = [minReserveOf(pair.token0), minReserveOf(pair.token1)];
+            return pair.reserve0 > minimum0 && pair.reserve1 > minimum1
+                ? null
+                : `reserves ${pair.reserve0}/${pair.reserve1} not above ${minimum0}/${minimum1} (${PAIR_FILTER_SETTINGS.minReserve} tokens)`;
+        },
+    },
+    recentActivity: {
+        name: 'recentActivity',
+        reject: pair => {
+            const age = Math.floor(Date.now() / 1000) - pair.lastTimestamp;
+            return age <= PAIR_FILTER_SETTINGS.maxPairAgeSeconds
+                ? null
+                : `inactive for ${Math.floor(age / 86400)} days`;
+        },
+    },
+    monitoredLiquidity: {
+        name: 'monitoredLiquidity',
+        reject: monitoredLiquidityReason,
+    },
+};
+
+/**
+ * Pool counts of the tokens of a set of pairs
+ */
+export function countPools(pairs: PairInfo[]): (token: Address) => number {
+    const counts = new Map<Address, number>();
+    for (const pair of pairs) {
+        counts.set(pair.token0, (counts.get(pair.token0) || 0) + 1);
+        counts.set(pair.token1, (counts.get(pair.token1) || 0) + 1);
+    }
+    return token => counts.get(token) || 0;
+}
+
+/**
+ * Runs the filters of PAIR_FILTER_CHAIN stage by stage, keeping every rejection with the
+ * filter that made it (the first failing one) so the settings can be tuned per factory.
+ */
+export class PairFilterPipeline {
+    readonly rejections: PairRejection[] = [];
+    // Pairs that entered the first stage, per factory
+    private entered: Map<string, number> = new Map();
+    private readonly stages: Record<FilterStage, PairFilter[]>;
+
+    constructor(chain: Record<FilterStage, readonly string[]> = PAIR_FILTER_CHAIN) {
+        const resolve = (names: readonly string[]) => names.map(name => {
+            const filter = PAIR_FILTERS[name];
+            if (!filter) throw new Error(`Unknown pair filter '${name}' in PAIR_FILTER_CHAIN`);
+            return filter;
+        });
+        this.stages = {
+            listing: resolve(chain.listing),
+            reserves: resolve(chain.reserves),
+            global: resolve(chain.global),
+        };
+    }
+
+    /**
+     * Keep the pairs passing every filter of a stage. Pools are counted among the given
+     * pairs unless another count is passed.
+     */
+    run(stage: FilterStage, pairs: PairInfo[], poolCount: (token: Address) => number = countPools(pairs)): PairInfo[] {
+        if (stage === 'listing') {
+            for (const pair of pairs) {
+                this.entered.set(pair.factory, (this.entered.get(pair.factory) || 0) + 1);
+            }
+        }
+
+        const context: FilterContext = { poolCount };
+        return pairs.filter(pair => {
+            for (const filter of this.stages[stage]) {
+                const reason = filter.reject(pair, context);
+                if (reason === null) continue;
+                this.rejections.push({ pairAddress: pair.pairAddress, factory: pair.factory, stage, filter: filter.name, reason });
+                if (DEBUG) console.log(`Rejected ${pair.factory} pair ${pair.pairAddress} (${stage}/${filter.name}): ${reason}`);
+                return false;
+            }
+            return true;
+        });
+    }
+
+    /**
+     * Table of how many pairs of each factory every filter rejected and how many were admitted.
+     * Pairs neither rejected nor admitted were lost to fetch failures.
+     */
+    logSummary(admitted: PairInfo[]): void {
+        const rows: Record<string, Record<string, number>> = {};
+        const columns = (Object.keys(this.stages) as FilterStage[])
+            .flatMap(stage => this.stages[stage].map(filter => `${stage}/${filter.name}`));
+
+        for (const [factory, count] of this.entered) {
+            rows[factory] = { listed: count, ...Object.fromEntries(columns.map(column => [column, 0])), admitted: 0 };
+        }
+        for (const rejection of this.rejections) {
+            const row = rows[rejection.factory];
+            if (row) row[`${rejection.stage}/${rejection.filter}`]++;
+        }
+        for (const pair of admitted) {
+            const row = rows[pair.factory];
+            if (row) row.admitted++;
+        }
+
+        console.log('Pair filter summary:');
+        console.table(rows);
+    }
+}
@@ -1,34 +1,243 @@
-import { createPublicClient, http } from 'viem';
-import { shibarium } from 'viem/chains';
+import { type Address, BaseError, ContractFunctionRevertedError, ContractFunctionZeroDataError, createPublicClient, http, parseAbi } from 'viem';
+import { cronos } from 'viem/chains';
+import { CHAIN_ID, FACTORY, RPC_URL } from './constants';
+import { getAmountOut } from './swap';
+
+// Discovers the factory behind each router and infers its swap fee from router quotes.
+// Usage: bun run discover [--validate] <router | Name=router>...
+// Prints FACTORY entries to paste into constants.ts and compares them with the configured ones.
+// With --validate the exit code is 1 when a fee differs or a factory is missing from FACTORY.
+
+const ROUTER_ABI = parseAbi([
+  'function factory() view returns (address)',
+  'function getAmountsOut(uint256 amountIn, address[] path) view returns (uint256[] amounts)',
+]);
+
+// Solidly style routers quote routes whose stable flag picks the pool, which fee inference doesn't support
+const SOLIDLY_ROUTER_ABI = parseAbi([
+  'struct Route { address from; address to; bool stable; }',
+  'function getAmountsOut(uint256 amountIn, Route[] routes) view returns (uint256[] amounts)',
+]);
+
+const FACTORY_ABI = parseAbi([
+  'function allPairsLength() view returns (uint256)',
+  'function allPairs(uint256) view returns (address)',
+]);
+
+const PAIR_ABI = parseAbi([
+  'function token0() view returns (address)',
+  'function token1() view returns (address)',
+  'function getReserves() view returns (uint112 reserve0, uint112 reserve1, uint32 blockTimestampLast)',
+]);
+
+// Pairs sampled per factory, spread over its whole pair list
+const FEE_SAMPLE_PAIRS = 20;
+// Quotes use this share of the input reserve, small enough to stay clear of rounding noise
+const QUOTE_RESERVE_DIVISOR = 1000n;
+// Highest fee searched for an exact match, in basis points
+const MAX_FEE_BPS = 1000;
+
+type PairFee = {
+  pairAddress: Address;
+  fee: number;
+  // The quote matched the constant product formula with this fee exactly
+  exact: boolean;
+};
+
+type Discovery = {
+  name: string;
+  router: Address;
+  factory: Address;
+  fee: number | null;
+  pairFees: PairFee[];
+};
 
 const client = createPublicClient({
-  chain: shibarium,
-  transport: http(),
+  chain: { ...cronos, id: CHAIN_ID },
+  transport: http(RPC_URL),
 });
 
-const ROUTER_ADDRESS = '0x9b176...';
-const ROUTER_ABI = [
-  {
-    "inputs": [],
-    "name": "factory",
-    "outputs": [{ "internalType": "address", "name": "", "type": "address" }],
-    "stateMutability": "view",
-    "type": "function"
+/**
+ * Fee in basis points that turns amountIn into the router's quote through a constant product pool.
+ * Falls back to the rounded fee solved from the quote when no integer fee matches exactly.
+ */
+export function inferFee(amountIn: bigint, reserveIn: bigint, reserveOut: bigint, quoted: bigint): { fee: number; exact: boolean } | null {
+  if (quoted === 0n || quoted >= reserveOut) return null;
+
+  for (let fee = 0; fee <= MAX_FEE_BPS; fee++) {
+    if (getAmountOut(amountIn, reserveIn, reserveOut, fee) === quoted) return { fee, exact: true };
   }
-];
 
-async function getFactoryAddress() {
+  // quoted = amountIn * g * Rout / (Rin + amountIn * g)  =>  g = quoted * Rin / (amountIn * (Rout - quoted))
+  const g = (Number(quoted) * Number(reserveIn)) / (Number(amountIn) * Number(reserveOut - quoted));
+  return { fee: Math.round((1 - g) * 10000), exact: false };
+}
+
+// The most common fee among the sampled pairs
+function dominantFee(pairFees: PairFee[]): number | null {
+  const counts = new Map<number, number>();
+  for (const { fee } of pairFees) counts.set(fee, (counts.get(fee) || 0) + 1);
+
+  let best: number | null = null;
+  for (const [fee, count] of counts) {
+    if (best === null || count > counts.get(best)!) best = fee;
+  }
+  return best;
+}
+
+// Whether the router answers Solidly style quotes, probed when its address[] quotes fail
+async function quotesSolidlyRoutes(router: Address, amountIn: bigint, from: Address, to: Address): Promise<boolean> {
   try {
-    const factoryAddress = await client.readContract({
-      address: ROUTER_ADDRESS,
-      abi: ROUTER_ABI,
-      functionName: 'factory',
+    await client.readContract({
+      address: router,
+      abi: SOLIDLY_ROUTER_ABI,
+      functionName: 'getAmountsOut',
+      args: [amountIn, [{ from, to, stable: false }]],
     });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+async function samplePairFees(router: Address, factory: Address): Promise<PairFee[]> {
+  const length = Number(await client.readContract({ address: factory, abi: FACTORY_ABI, functionName: 'allPairsLength' }));
+  if (length === 0) return [];
 
-    console.log('Factory Address:', factoryAddress);
-  } catch (error) {
-    console.error('Error fetching factory address:', error);
+  const count = Math.min(FEE_SAMPLE_PAIRS, length);
+  const indices = Array.from(new Set(Array.from({ length: count }, (_, i) => Math.floor((i * length) / count))));
+  const pairAddresses = await client.multicall({
+    contracts: indices.map(i => ({ address: factory, abi: FACTORY_ABI, functionName: 'allPairs', args: [BigInt(i)] } as const)),
+    allowFailure: false,
+  });
+
+  const pairData = await client.multicall({
+    contracts: pairAddresses.flatMap(address => [
+      { address, abi: PAIR_ABI, functionName: 'token0' },
+      { address, abi: PAIR_ABI, functionName: 'token1' },
+      { address, abi: PAIR_ABI, functionName: 'getReserves' },
+    ] as const),
+    allowFailure: true,
+  });
+
+  const pairFees: PairFee[] = [];
+  let probedSolidly = false;
+  for (let i = 0; i < pairAddresses.length; i++) {
+    const [token0, token1, reserves] = pairData.slice(i * 3, i * 3 + 3);
+    if (token0.status !== 'success' || token1.status !== 'success' || reserves.status !== 'success') continue;
+
+    const [reserve0, reserve1] = reserves.result as readonly [bigint, bigint, number];
+    const amountIn = reserve0 / QUOTE_RESERVE_DIVISOR;
+    if (amountIn === 0n || reserve1 === 0n) continue;
+
+    try {
+      const amounts = await client.readContract({
+        address: router,
+        abi: ROUTER_ABI,
+        functionName: 'getAmountsOut',
+        args: [amountIn, [token0.result as Address, token1.result as Address]],
+      });
+      const fee = inferFee(amountIn, reserve0, reserve1, amounts[1]);
+      if (fee) pairFees.push({ pairAddress: pairAddresses[i], ...fee });
+    } catch (error) {
+      // A router that never quoted may take Solidly routes instead of a token path
+      if (pairFees.length === 0 && !probedSolidly) {
+        probedSolidly = true;
+        if (await quotesSolidlyRoutes(router, amountIn, token0.result as Address, token1.result as Address)) {
+          throw new Error(`Unsupported router ABI: ${router} quotes Solidly-style routes ` +
+            '(getAmountsOut(uint256, (address,address,bool)[])), only getAmountsOut(uint256, address[]) routers are supported');
+        }
+      }
+      // Routers quoting another factory's pair for these tokens, or with another quote signature
+      console.warn(`No quote for pair ${pairAddresses[i]}: ${(error as Error).message.split('\n')[0]}`);
+    }
   }
+  return pairFees;
 }
 
-getFactoryAddress();
+async function discover(name: string | undefined, router: Address): Promise<Discovery> {
+  const factory = await client.readContract({ address: router, abi: ROUTER_ABI, functionName: 'factory' })
+    .catch(error => {
+      // A revert or empty return means the call itself is unsupported, not that the RPC failed
+      const unsupported = error instanceof BaseError && error.walk(cause =>
+        cause instanceof ContractFunctionRevertedError || cause instanceof ContractFunctionZeroDataError);
+      throw unsupported ? new Error(`Unsupported router ABI: ${router} has no factory() view`) : error;
+    });
+  const configured = FACTORY.find(f => f.address.toLowerCase() === factory.toLowerCase());
+  const pairFees = await samplePairFees(router, factory);
+
+  return {
+    name: name ?? configured?.name ?? `Router_${router.slice(2, 8)}`,
+    router,
+    factory,
+    fee: dominantFee(pairFees),
+    pairFees,
+  };
+}
+
+// Compare a discovery with FACTORY, returns false when the config doesn't match
+function report(discovery: Discovery): boolean {
+  const { name, router, factory, fee, pairFees } = discovery;
+  const configured = FACTORY.find(f => f.address.toLowerCase() === factory.toLowerCase());
+
+  console.log(`\n${name}: router ${router} -> factory ${factory}`);
+  if (fee === null) {
+    console.log('  No pair could be quoted, fee unknown');
+    return Boolean(configured);
+  }
+
+  const approximate = pairFees.filter(pair => !pair.exact).length;
+  console.log(`  Fee ${fee} bps from ${pairFees.length} sampled pairs${approximate > 0 ? ` (${approximate} approximate)` : ''}`);
+
+  // Pairs whose fee differs from their factory's, e.g. per-pair fee overrides
+  for (const pair of pairFees.filter(pair => pair.fee !== fee)) {
+    console.log(`  ! Pair ${pair.pairAddress} charges ${pair.fee} bps${pair.exact ? '' : ' (approximate)'}, factory fee is ${fee} bps`);
+  }
+
+  console.log(`  { name: "${configured?.name ?? name}", address: "${factory}" as \`0x\${string}\`, fee: ${fee}, volatile: ${configured?.volatile ?? false} },`);
+
+  if (!configured) {
+    console.log('  Missing from FACTORY');
+    return false;
+  }
+  if (configured.fee !== fee) {
+    console.log(`  FACTORY entry ${configured.name} has fee ${configured.fee}, quotes say ${fee}`);
+    return false;
+  }
+  console.log(`  Matches FACTORY entry ${configured.name}`);
+  return true;
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const validate = args.includes('--validate');
+  const routers = args.filter(arg => arg !== '--validate').map(arg => {
+    const [name, address] = arg.includes('=') ? arg.split('=') : [undefined, arg];
+    if (!/^0x[a-fA-F0-9]{40}$/.test(address)) throw new Error(`Invalid router address: ${address}`);
+    return { name, address: address as Address };
+  });
+
+  if (routers.length === 0) {
+    console.error('Usage: bun run discover [--validate] <router | Name=router>...');
+    process.exit(1);
+  }
+
+  let valid = true;
+  for (const { name, address } of routers) {
+    try {
+      valid = report(await discover(name, address)) && valid;
+    } catch (error) {
+      console.error(`Failed to discover the factory of router ${address}: ${(error as Error).message.split('\n')[0]}`);
+      valid = false;
+    }
+  }
+
+  if (validate && !valid) process.exit(1);
+}
+
+if (import.meta.main) {
+  main().catch(error => {
+    console.error('Factory discovery failed:', error instanceof Error ? error.message : error);
+    process.exit(1);
+  });
+}
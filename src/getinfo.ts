@@ -1,7 +1,14 @@
-import {  type Address, createPublicClient, parseEther } from 'viem';
-import { BATCH_SIZE, FACTORY, UNISWAP_FLASH_QUERY_CONTRACT, DEBUG, ADDRESSES } from './constants';
+import {  type Address, createPublicClient, parseAbiItem } from 'viem';
+import { BATCH_SIZE, FACTORY, UNISWAP_FLASH_QUERY_CONTRACT, DEBUG, MAX_TRANSFER_TAX_BPS } from './constants';
 import UniswapFlashQueryABI from './ABI/UniswapFlashQuery.json';
 import bannedTokens from './bannedtax.json';
+import taxedTokens from '../taxed.json';
+import { type TransferTax } from './swap';
+import { type V3PoolState } from './v3';
+import { type CachedPair, type PairCache, loadPairCache, savePairCache, getCachedFactoryPairs, setCachedFactoryPairs, pruneFactoryCache } from './paircache';
+import { FetchReport, describeError, getRpcFetcher } from './fetcher';
+import { PairFilterPipeline } from './filters';
+import { tokenRegistry } from './tokens';
 
 export type PairInfo = {
     pairAddress: Address;
@@ -12,68 +19,92 @@ export type PairInfo = {
     lastTimestamp: number;
     factory: string;
     fee: number;
+    tax0?: TransferTax;
+    tax1?: TransferTax;
+    stable?: boolean;
+    decimals0?: bigint;
+    decimals1?: bigint;
+    // Concentrated liquidity state; reserves then hold the virtual reserves of the active range
+    v3?: V3PoolState;
 };
 
+// Solidly/Hermes pair metadata: decimals are returned as 10 ** decimals
+const HERMES_PAIR_ABI = [
+    parseAbiItem('function metadata() view returns (uint256 dec0, uint256 dec1, uint256 r0, uint256 r1, bool st, address t0, address t1)'),
+];
+
 // Special batch size for Woof factory reserves to prevent contract reverts
 const WOOF_RESERVES_BATCH_SIZE = 5;
 
-// Maximum age for pairs (35 days in seconds)
-const MAX_PAIR_AGE_SECONDS = 90 * 24 * 60 * 60;
+// Transfer taxes keyed by lowercase token address
+const transferTaxes = new Map<string, TransferTax>(
+    Object.entries(taxedTokens as Record<string, TransferTax>)
+        .map(([token, tax]) => [token.toLowerCase(), tax])
+);
 
+// Banned tokens by lowercase address
+const bannedTokenSet = new Set<string>(bannedTokens.map(token => token.toLowerCase()));
 
-const MIN_OTHER_TOKENS_LIQUIDITY = parseEther("11000");
+/**
+ * Get the transfer tax of a token, undefined if it isn't a fee-on-transfer token
+ */
+export function getTransferTax(token: Address): TransferTax | undefined {
+    return transferTaxes.get(token.toLowerCase());
+}
 
 /**
- * Check if a pair is active based on its last timestamp
+ * Record a transfer tax measured at runtime, it applies to pairs listed from now on
  */
-function isPairActive(lastTimestamp: number): boolean {
-    const currentTime = Math.floor(Date.now() / 1000); // Current time in seconds
-    const pairAge = currentTime - lastTimestamp;
-    return pairAge <= MAX_PAIR_AGE_SECONDS;
+export function setTransferTax(token: Address, tax: TransferTax): void {
+    transferTaxes.set(token.toLowerCase(), tax);
 }
 
 /**
- * Check if a pair has sufficient liquidity for monitored tokens based on ADDRESSES configuration
+ * Ban a token at runtime, e.g. one that can't be sold
  */
-function hasEnoughWethLiquidity(pair: PairInfo): boolean {
-    let hasMonitoredToken = false;
-    
-    // First check if pair contains any monitored tokens and verify their liquidity
-    for (const { address, LPAMOUNT } of ADDRESSES) {
-        if (pair.token0 === address) {
-            hasMonitoredToken = true;
-            if (DEBUG) console.log(`Checking liquidity for monitored token ${address} in pair ${pair.pairAddress} (token0)`);
-            if (pair.reserve0 < BigInt(LPAMOUNT)) {
-                if (DEBUG) console.log(`Insufficient liquidity for monitored token ${address}: ${pair.reserve0} < ${LPAMOUNT}`);
-                return false;
-            }
-        }
-        if (pair.token1 === address) {
-            hasMonitoredToken = true;
-            if (DEBUG) console.log(`Checking liquidity for monitored token ${address} in pair ${pair.pairAddress} (token1)`);
-            if (pair.reserve1 < BigInt(LPAMOUNT)) {
-                if (DEBUG) console.log(`Insufficient liquidity for monitored token ${address}: ${pair.reserve1} < ${LPAMOUNT}`);
-                return false;
-            }
-        }
-    }
-    
-    // If pair has monitored tokens and passed all checks above, it's valid
-    if (hasMonitoredToken) {
-        return true;
-    }
-    
-    // For pairs with no monitored tokens, check if either reserve meets the minimum requirement
-    const hasEnoughLiquidity = pair.reserve0 >= MIN_OTHER_TOKENS_LIQUIDITY || 
-                              pair.reserve1 >= MIN_OTHER_TOKENS_LIQUIDITY;
-                              
-    if (DEBUG && !hasEnoughLiquidity) {
-        console.log(`Insufficient liquidity for non-monitored pair ${pair.pairAddress}: ` +
-                   `reserve0=${pair.reserve0}, reserve1=${pair.reserve1}, ` +
-                   `required=${MIN_OTHER_TOKENS_LIQUIDITY}`);
-    }
-    
-    return hasEnoughLiquidity;
+export function banToken(token: Address): void {
+    bannedTokenSet.add(token.toLowerCase());
+}
+
+/**
+ * Check if a token is banned, or already has a recorded transfer tax
+ */
+export function isTokenRegistered(token: Address): boolean {
+    const tokenLower = token.toLowerCase();
+    return bannedTokenSet.has(tokenLower) || transferTaxes.has(tokenLower);
+}
+
+/**
+ * Check if a token's transfer tax is low enough to route through
+ */
+function isTaxTradable(token: Address): boolean {
+    const tax = getTransferTax(token);
+    return !tax || (tax.buyFeeBps <= MAX_TRANSFER_TAX_BPS && tax.sellFeeBps <= MAX_TRANSFER_TAX_BPS);
+}
+
+/**
+ * Check that a token is neither banned nor taxed too heavily to route through
+ */
+export function isTokenAllowed(token: Address): boolean {
+    return isTaxTradable(token) && !bannedTokenSet.has(token.toLowerCase());
+}
+
+/**
+ * Graph pair for a listed pair, reserves still to be fetched
+ */
+export function listedPairToPairInfo({ pairAddress, token0, token1, factory, fee }: CachedPair): PairInfo {
+    return {
+        pairAddress,
+        token0,
+        token1,
+        reserve0: 0n,
+        reserve1: 0n,
+        lastTimestamp: 0,  // Will be updated when fetching reserves
+        factory,
+        fee,
+        tax0: getTransferTax(token0),
+        tax1: getTransferTax(token1),
+    };
 }
 
 /**
@@ -81,15 +112,16 @@ function hasEnoughWethLiquidity(pair: PairInfo): boolean {
  */
 async function getPairsLength(
     client: ReturnType<typeof createPublicClient>,
-    factories: typeof FACTORY
+    factories: typeof FACTORY,
+    report: FetchReport
 ): Promise<Map<string, number>> {
     try {
-        const lengths = await client.readContract({
+        const lengths = await getRpcFetcher(client).request(() => client.readContract({
             address: UNISWAP_FLASH_QUERY_CONTRACT as Address,
             abi: UniswapFlashQueryABI,
             functionName: 'getPairsLength',
             args: [factories.map(f => f.address)],
-        }) as bigint[];
+        })) as bigint[];
 
         return new Map(
             factories.map((factory, index) => [
@@ -101,91 +133,143 @@ async function getPairsLength(
         if (DEBUG) {
             console.error('Error fetching pairs length:', error);
         }
+        for (const factory of factories) {
+            report.skip('length', factory.name, 'new pairs', describeError(error));
+        }
         return new Map();
     }
 }
 
 /**
- * Fetches pairs from a specific factory within a range and filters out pairs with banned tokens
+ * Fetches the pairs a factory lists at indices [start, stop), throws when the call fails
  */
-async function getPairsInRange(
+async function getPairListingsInRange(
     client: ReturnType<typeof createPublicClient>,
     factory: typeof FACTORY[0],
     start: number,
     stop: number
-): Promise<PairInfo[]> {
-    try {
-        const pairsData = await client.readContract({
-            address: UNISWAP_FLASH_QUERY_CONTRACT as Address,
-            abi: UniswapFlashQueryABI,
-            functionName: 'getPairsByIndexRange',
-            args: [factory.address, BigInt(start), BigInt(stop)],
-        }) as Address[][];
-
-        // Filter out pairs that contain banned tokens
-        const pairs = pairsData
-            .map(([token0, token1, pairAddress]) => ({
-                pairAddress,
-                token0,
-                token1,
-                reserve0: 0n,
-                reserve1: 0n,
-                lastTimestamp: 0,  // Will be updated when fetching reserves
-                factory: factory.name,
-                fee: factory.fee,
-            }));
-
-        // Build a map of token liquidity pool counts
-        const tokenPoolCount: { [token: string]: number } = {};
-        pairs.forEach(pair => {
-          const tokenA = pair.token0;
-          const tokenB = pair.token1;
-          tokenPoolCount[tokenA] = (tokenPoolCount[tokenA] || 0) + 1;
-          tokenPoolCount[tokenB] = (tokenPoolCount[tokenB] || 0) + 1;
-        });
-
-        // Filter out pairs where either token appears in only one liquidity pool
-        const filteredPairs = pairs.filter(pair => 
-            tokenPoolCount[pair.token0] > 1 && 
-            tokenPoolCount[pair.token1] > 1 && 
-            !bannedTokens.some(bannedToken => {
-                const bannedTokenLower = bannedToken.toLowerCase();
-                return pair.token0.toLowerCase() === bannedTokenLower || pair.token1.toLowerCase() === bannedTokenLower;
-            })
-        );
+): Promise<CachedPair[]> {
+    const pairsData = await client.readContract({
+        address: UNISWAP_FLASH_QUERY_CONTRACT as Address,
+        abi: UniswapFlashQueryABI,
+        functionName: 'getPairsByIndexRange',
+        args: [factory.address, BigInt(start), BigInt(stop)],
+    }) as Address[][];
 
-        return filteredPairs;
-    } catch (error) {
-        if (DEBUG) {
-            console.error(`Error fetching pairs for factory ${factory.name}:`, error);
-        }
-        return [];
+    return pairsData.map(([token0, token1, pairAddress], i) => ({
+        pairAddress,
+        token0,
+        token1,
+        factory: factory.name,
+        fee: factory.fee,
+        index: start + i,
+    }));
+}
+
+/**
+ * Turns listed pairs into graph pairs and runs the listing filters.
+ * Pools are counted per BATCH_SIZE range of the factory's list, as they were fetched.
+ */
+function filterListedPairs(listings: CachedPair[], pipeline: PairFilterPipeline): PairInfo[] {
+    const ranges = new Map<number, CachedPair[]>();
+    for (const listing of listings) {
+        const range = Math.floor(listing.index / BATCH_SIZE);
+        if (!ranges.has(range)) ranges.set(range, []);
+        ranges.get(range)!.push(listing);
     }
+
+    return Array.from(ranges.values()).flatMap(range => pipeline.run('listing', range.map(listedPairToPairInfo)));
 }
 
 /**
- * Check if pairs are volatile (non-stable) pairs using Hermes filter
+ * Pairs a factory lists, read from the pair cache and extended with the ones created since.
+ * The cache keeps only the gap-free start of the list, so a failed range is fetched again next time.
  */
-async function filterVolatilePairs(
+async function getFactoryListings(
+    client: ReturnType<typeof createPublicClient>,
+    factory: typeof FACTORY[0],
+    totalPairs: number,
+    cache: PairCache,
+    report: FetchReport
+): Promise<CachedPair[]> {
+    const cached = getCachedFactoryPairs(cache, factory);
+    if (totalPairs < cached.count) {
+        // The length call failed or reports fewer pairs than before, keep what is cached
+        console.log(`Factory ${factory.name} reports ${totalPairs} pairs, using the ${cached.count} cached`);
+        return cached.pairs;
+    }
+
+    console.log(`Found ${totalPairs} pairs for factory ${factory.name} (${cached.count} cached)`);
+
+    const indices = Array.from({ length: totalPairs - cached.count }, (_, i) => cached.count + i);
+    let cachedCount = totalPairs;
+    const fetched = await getRpcFetcher(client).fetchInBatches(
+        indices,
+        BATCH_SIZE,
+        batch => {
+            const start = batch[0];
+            const stop = batch[batch.length - 1] + 1;
+            if (DEBUG) console.log(`Fetching pairs ${start} to ${stop} for ${factory.name}...`);
+            return getPairListingsInRange(client, factory, start, stop);
+        },
+        (index, reason) => {
+            cachedCount = Math.min(cachedCount, index);
+            report.skip('listing', factory.name, `#${index}`, reason);
+        }
+    );
+    const listings = [...cached.pairs, ...fetched];
+
+    setCachedFactoryPairs(cache, factory, cachedCount, listings.filter(listing => listing.index < cachedCount));
+    return listings;
+}
+
+/**
+ * Fetch the stable flag and token decimals of Hermes (Solidly) pairs.
+ * Pairs whose metadata() fails are assumed volatile.
+ */
+export async function getHermesPairsMetadata(
     client: ReturnType<typeof createPublicClient>,
     pairs: PairInfo[]
-): Promise<boolean[]> {
-    try {
-        const isVolatile = await client.readContract({
-            address: UNISWAP_FLASH_QUERY_CONTRACT as Address,
-            abi: UniswapFlashQueryABI,
-            functionName: 'filterVolatileHermesPairs',
-            args: [pairs.map(p => p.pairAddress)],
-        }) as boolean[];
+): Promise<{ stable: boolean; decimals0?: bigint; decimals1?: bigint }[]> {
+    const metadata = await client.multicall({
+        contracts: pairs.map(p => ({
+            address: p.pairAddress,
+            abi: HERMES_PAIR_ABI,
+            functionName: 'metadata',
+        } as const)),
+        allowFailure: true,
+    });
 
-        return isVolatile;
-    } catch (error) {
-        if (DEBUG) {
-            console.error('Error checking volatile pairs:', error);
+    return metadata.map((result, i) => {
+        if (result.status !== 'success') {
+            if (DEBUG) console.error(`Error reading metadata of pair ${pairs[i].pairAddress}, assuming volatile:`, result.error);
+            return { stable: false };
         }
-        // In case of error, assume all pairs are volatile (false)
-        return pairs.map(() => false);
-    }
+
+        const [dec0, dec1, , , stable] = result.result;
+        return {
+            stable,
+            decimals0: dec0,
+            decimals1: dec1,
+        };
+    });
+}
+
+/**
+ * Reads [reserve0, reserve1, blockTimestampLast] of pairs in one call, at the latest block unless one is given
+ */
+export async function getReservesByPairs(
+    client: ReturnType<typeof createPublicClient>,
+    pairAddresses: Address[],
+    blockNumber?: bigint
+): Promise<bigint[][]> {
+    return await client.readContract({
+        address: UNISWAP_FLASH_QUERY_CONTRACT as Address,
+        abi: UniswapFlashQueryABI,
+        functionName: 'getReservesByPairs',
+        args: [pairAddresses],
+        blockNumber,
+    }) as bigint[][];  // Contract returns uint256[3][] which viem converts to bigint[][]
 }
 
 /**
@@ -196,12 +280,7 @@ async function getReservesForPairs(
     pairs: PairInfo[]
 ): Promise<PairInfo[]> {
     try {
-        const reserves = await client.readContract({
-            address: UNISWAP_FLASH_QUERY_CONTRACT as Address,
-            abi: UniswapFlashQueryABI,
-            functionName: 'getReservesByPairs',
-            args: [pairs.map(p => p.pairAddress)],
-        }) as bigint[][];  // Contract returns uint256[3][] which viem converts to bigint[][]
+        const reserves = await getReservesByPairs(client, pairs.map(p => p.pairAddress));
 
         return pairs.map((pair, i) => ({
             ...pair,
@@ -218,70 +297,49 @@ async function getReservesForPairs(
 }
 
 /**
- * Fetches reserves for pairs in appropriate batch sizes based on factory
+ * Fetches reserves for pairs in appropriate batch sizes based on factory.
+ * Failing batches are retried, then split until the failing pairs are isolated and reported.
  */
 async function getReservesWithRetry(
     client: ReturnType<typeof createPublicClient>,
-    pairs: PairInfo[]
+    pairs: PairInfo[],
+    report: FetchReport,
+    pipeline: PairFilterPipeline
 ): Promise<PairInfo[]> {
-    const result: PairInfo[] = [];
-    const isWoofFactory = FACTORY.find(f => f.name === pairs[0]?.factory)?.volatile ?? false;
+    const factory = FACTORY.find(f => f.name === pairs[0]?.factory);
+    const isWoofFactory = factory?.volatile ?? false;
     const batchSize = isWoofFactory ? WOOF_RESERVES_BATCH_SIZE : BATCH_SIZE;
 
-    for (let i = 0; i < pairs.length; i += batchSize) {
-        const batch = pairs.slice(i, i + batchSize);
-        try {
+    const pairsWithReserves = await getRpcFetcher(client).fetchInBatches(
+        pairs,
+        batchSize,
+        async batch => {
             if (DEBUG) {
-                console.log(`Fetching reserves for ${batch.length} pairs from ${pairs[0].factory} (${i + 1} to ${i + batch.length})`);
+                console.log(`Fetching reserves for ${batch.length} pairs from ${batch[0].factory}`);
             }
 
-            // For Woof factory, filter out stable pairs first
+            // For Woof factory, tag stable pairs so the graph prices them with the stable invariant
             let filteredBatch = batch;
             if (isWoofFactory) {
-                const isStablePair = await filterVolatilePairs(client, batch);
-                filteredBatch = batch.filter((_, index) => !isStablePair[index]);
-                
-                if (DEBUG && batch.length !== filteredBatch.length) {
-                    console.log(`Filtered out ${batch.length - filteredBatch.length} stable pairs from Woof factory`);
-                }
+                const metadata = await getHermesPairsMetadata(client, batch);
+                filteredBatch = batch.map((pair, index) => metadata[index].stable
+                    ? { ...pair, ...metadata[index], fee: factory?.stableFee ?? pair.fee }
+                    : pair
+                );
 
-                // If all pairs in batch were stable, skip to next batch
-                if (filteredBatch.length === 0) {
-                    continue;
+                if (DEBUG) {
+                    const stableCount = metadata.filter(m => m.stable).length;
+                    if (stableCount > 0) console.log(`Found ${stableCount} stable pairs in Woof factory batch`);
                 }
             }
 
-            const pairsWithReserves = await getReservesForPairs(client, filteredBatch);
-            
-            // Filter pairs that are active and have sufficient reserves
-            const validPairs = pairsWithReserves.filter(pair => 
-                pair.reserve0 > parseEther("1") && 
-                pair.reserve1 > parseEther("1") && 
-                isPairActive(pair.lastTimestamp) && 
-                hasEnoughWethLiquidity(pair)
-            );
-            
-            const skippedCount = filteredBatch.length - validPairs.length;
-            if (skippedCount > 0 && DEBUG) {
-                console.log(`Skipped ${skippedCount} pairs (${
-                    filteredBatch.length - validPairs.length - pairsWithReserves.filter(p => !isPairActive(p.lastTimestamp)).length
-                } with zero reserves, ${
-                    pairsWithReserves.filter(p => !isPairActive(p.lastTimestamp)).length
-                } inactive, ${
-                    pairsWithReserves.filter(p => !hasEnoughWethLiquidity(p)).length
-                } insufficient liquidity)`);
-            }
-            
-            result.push(...validPairs);
-        } catch (error) {
-            // Only show minimal error message when DEBUG is false
-            console.error(`Failed to fetch reserves for batch ${i} to ${i + batch.length}${DEBUG ? `, skipping these pairs: ${
-                batch.map(p => p.pairAddress).join(', ')
-            }` : ''}`);
-            continue;
-        }
-    }
-    return result;
+            return getReservesForPairs(client, filteredBatch);
+        },
+        (pair, reason) => report.skip('reserves', pair.factory, pair.pairAddress, reason)
+    );
+
+    // Filter pairs that are active and have sufficient reserves
+    return pipeline.run('reserves', pairsWithReserves);
 }
 
 /**
@@ -293,50 +351,45 @@ export async function getAllPairsInfo(
     try {
         // First get the total number of pairs for each factory
         console.log('Getting total pairs for each factory...');
-        const pairsLength = await getPairsLength(client, FACTORY);
+        const report = new FetchReport();
+        const pipeline = new PairFilterPipeline();
+        const pairsLength = await getPairsLength(client, FACTORY, report);
         
-        let allPairs: PairInfo[] = [];
+        const cache = await loadPairCache();
+        pruneFactoryCache(cache);
 
-        // Fetch pairs in batches for each factory
-        for (const factory of FACTORY) {
+        // Factories are fetched side by side, the shared RPC fetcher bounds the requests in flight.
+        // Get all pairs for each factory first, only the new ones come from the chain
+        const listedPairs = await Promise.all(FACTORY.map(async factory => {
             const totalPairs = pairsLength.get(factory.name) || 0;
-            console.log(`Found ${totalPairs} pairs for factory ${factory.name}`);
-
-            // Get all pairs for this factory first
-            const factoryPairs: PairInfo[] = [];
-            for (let start = 0; start < totalPairs; start += BATCH_SIZE) {
-                const stop = Math.min(start + BATCH_SIZE, totalPairs);
-                console.log(`Fetching pairs ${start} to ${stop} for ${factory.name}...`);
-                
-                const pairs = await getPairsInRange(client, factory, start, stop);
-                if (pairs.length > 0) {
-                    factoryPairs.push(...pairs);
-                }
-            }
+            const listings = await getFactoryListings(client, factory, totalPairs, cache, report);
+            return filterListedPairs(listings, pipeline);
+        }));
 
-            // Then get reserves for all pairs from this factory
-            if (factoryPairs.length > 0) {
-                console.log(`Getting reserves for ${factoryPairs.length} pairs from ${factory.name}...`);
-                const pairsWithReserves = await getReservesWithRetry(client, factoryPairs);
-                console.log(`Successfully fetched reserves for ${pairsWithReserves.length}/${factoryPairs.length} pairs from ${factory.name}`);
-                allPairs = allPairs.concat(pairsWithReserves);
-            }
+        // The minimum reserve is in whole tokens, so the reserve filters need every token's decimals
+        await tokenRegistry.load(client, listedPairs.flat().flatMap(pair => [pair.token0, pair.token1]));
+
+        // Then get reserves for all pairs of each factory
+        const factoryResults = await Promise.all(FACTORY.map(async (factory, i) => {
+            const factoryPairs = listedPairs[i];
+            if (factoryPairs.length === 0) return [];
+            console.log(`Getting reserves for ${factoryPairs.length} pairs from ${factory.name}...`);
+            const pairsWithReserves = await getReservesWithRetry(client, factoryPairs, report, pipeline);
+            console.log(`Successfully fetched reserves for ${pairsWithReserves.length}/${factoryPairs.length} pairs from ${factory.name}`);
+            return pairsWithReserves;
+        }));
+        const allPairs = factoryResults.flat();
+        report.log();
+
+        try {
+            await savePairCache(cache);
+        } catch (error) {
+            console.error('Failed to save pair cache:', error);
         }
 
-        // Build a global token liquidity pool count based on validPairs from all factories
-        const globalTokenPoolCount: { [token: string]: number } = {};
-        allPairs.forEach(pair => {
-          const tokenA = pair.token0;
-          const tokenB = pair.token1;
-          globalTokenPoolCount[tokenA] = (globalTokenPoolCount[tokenA] || 0) + 1;
-          globalTokenPoolCount[tokenB] = (globalTokenPoolCount[tokenB] || 0) + 1;
-        });
-
-        // Filter out pairs where either token is associated with only one liquidity pool
-        const finalPairs = allPairs.filter(pair => 
-          globalTokenPoolCount[pair.token0] > 1 && 
-          globalTokenPoolCount[pair.token1] > 1
-        );
+        // Pools are counted again across the pairs of all factories
+        const finalPairs = pipeline.run('global', allPairs);
+        pipeline.logSummary(finalPairs);
 
         return finalPairs;
     } catch (error) {
@@ -1,5 +1,10 @@
-import { maxHops, MAX_ENTRIES_PER_TOKEN, DEBUG, minProfit, maxIterations, minProfits, ADDRESSES, NERK } from './constants';
+import { maxHops, DEBUG, minProfits, CYCLE_INDEX_MAX_PER_PAIR, CYCLE_INDEX_REBUILD_MS, ADDRESSES, EXACT_PROFIT_TOLERANCE_BPS, PRICE_NUMERAIRES, ORACLE_REFERENCE_LIQUIDITY, BASE_FEE, PRIORITY_FEE, GAS_OVERHEAD, GAS_PER_HOP } from './constants';
 import { type Address } from 'viem';
+import { type SwapHop, type TransferTax, type StableParams, type V3Params, simulatePath, getSpotRate, quoteFloat, getReservesAfterSwap } from './swap';
+import { type Direction, type Edge, type RawOpportunity, type SearchStrategy, createSearchStrategy, findDirectRoute } from './strategy';
+import { type V3PoolState } from './v3';
+import { type OutputValue, findOptimalInput, valueOutput } from './optimizer';
+import { type ExecutionPlan, optimizeSplitRoute } from './split';
 
 export type PairInfo = {
   pairAddress: Address;
@@ -8,31 +13,104 @@ export type PairInfo = {
   reserve0: bigint;
   reserve1: bigint;
   fee: number;
+  // Name of the factory the pair was discovered through
+  factory?: string;
+  // Transfer tax of fee-on-transfer tokens, absent for untaxed tokens
+  tax0?: TransferTax;
+  tax1?: TransferTax;
+  // Solidly stable pools (x³y + y³x), decimals are 10 ** token decimals
+  stable?: boolean;
+  decimals0?: bigint;
+  decimals1?: bigint;
+  // Uniswap V3 pool state, reserves are then the virtual reserves of the active range
+  v3?: V3PoolState;
 };
 
-interface Edge {
-  to: Address;
-  pairAddress: Address;
-  direction: 'token0ToToken1' | 'token1ToToken0';
-  fee: number;
-  reserveIn: bigint;
-  reserveOut: bigint;
-}
+// Oracle prices are turned into exact ratios with this denominator
+const OUTPUT_VALUE_SCALE = 10n ** 36n;
 
 // Key for edge lookup, combining source token and pair address
 type EdgeKey = `${string}-${string}`;
 
-interface DPEntry {
-  amountOut: number;
-  path: Address[];
-  pairs: Address[];
-  directions: ('token0ToToken1' | 'token1ToToken0')[];
+interface IndexedCycle {
+  id: number;
+  cycle: RawOpportunity;
+  // Spot-rate product when indexed, ranks the cycles competing for a pair's slots
+  rate: number;
+  // Pairs whose slots hold the cycle, it is dropped at zero
+  slots: number;
 }
 
-interface DPTable {
-  [step: number]: Map<Address, DPEntry[]>;
+interface CycleIndex {
+  key: string;
+  startTokens: Address[];
+  maxDepth: number;
+  cycles: Map<number, IndexedCycle>;
+  // Cycle ids through each pair, best rate first and at most CYCLE_INDEX_MAX_PER_PAIR
+  byPair: Map<Address, number[]>;
+  nextId: number;
+  // Ranks go stale as reserves move, so the index is rebuilt every CYCLE_INDEX_REBUILD_MS
+  builtAt: number;
 }
 
+// A candidate in canonical rotation, with the other start tokens its cycle passes through
+interface CanonicalOpportunity extends RawOpportunity {
+  alternativeStarts: Address[];
+}
+
+export type ArbitrageResult = {
+  paths: Address[][];
+  pairs: Address[][];
+  profits: number[];
+  optimalAmounts: number[];
+  fees: number[][];
+  // Exact integer figures from replaying each path with on-chain rounding, gross of gas
+  exactProfits: bigint[];
+  // Exact profit minus the estimated gas cost, in start token units; results are ranked on its WCRO value
+  netProfits: bigint[];
+  gasEstimates: bigint[];
+  exactAmounts: bigint[];
+  amountsOut: bigint[][];
+  // Guaranteed distance of each exact profit from the true optimum
+  errorBounds: bigint[];
+  // Least final amount (in the path's last token) that still clears the profit threshold
+  minAmountsOut: bigint[];
+  // Other start tokens a cycle can be flash loaned and executed from
+  alternativeStartTokens: Address[][];
+};
+
+/**
+ * Oracle price of a token, read along the deepest-liquidity path from WCRO
+ */
+export type TokenPrice = {
+  // WCRO wei per raw unit of the token, at pool mid prices
+  price: number;
+  // Shallowest pool along the pricing path, valued in WCRO wei
+  liquidity: number;
+  // 0..1, liquidity / (liquidity + ORACLE_REFERENCE_LIQUIDITY)
+  confidence: number;
+  path: Address[];
+};
+
+export type Numeraire = keyof typeof PRICE_NUMERAIRES;
+
+/**
+ * Reserves of pairs moved by trades not yet seen on chain, read in place of the graph's own
+ */
+export type ReserveOverlay = Map<Address, { reserve0: bigint; reserve1: bigint }>;
+
+/**
+ * A route re-optimized on given reserves, profit in the start token's units
+ */
+export type RouteEvaluation = {
+  amountIn: bigint;
+  profit: bigint;
+  netProfit: bigint;
+  gasEstimate: bigint;
+  amountsOut: bigint[];
+  minAmountOut: bigint;
+};
+
 export class ArbitrageGraph {
   private graph: Map<Address, Edge[]> = new Map();
   private tokens: Set<Address> = new Set();
@@ -41,6 +119,25 @@ export class ArbitrageGraph {
   private edgeIndex: Map<EdgeKey, Edge> = new Map();
   // Track highest reserve pairs for each token for instant lookup
   private tokenToHighestReservePair: Map<Address, { pairAddress: Address; reserves: bigint; fee: number }> = new Map();
+  // Candidate cycles for a start token set, indexed by the pairs they pass through
+  private cycleIndex: CycleIndex | null = null;
+  // Lowercased tokens that were removed at runtime and must not come back through addPair
+  private denylist: Set<string> = new Set();
+  // Oracle prices by lowercased token, null when reserves changed since the last computation
+  private prices: Map<string, TokenPrice> | null = null;
+  private searchStrategy: SearchStrategy;
+  // Bumped whenever pairs are added or removed, so snapshots know to rebuild
+  private structureVersion = 0;
+  // Pairs whose state changed since the last takeChangedPairs(), for forwarding to workers
+  private changedPairs: Set<Address> = new Set();
+  // Latest block whose reserves are reflected in the graph
+  private blockNumber: bigint | null = null;
+  // Base fee of the latest block, prices the gas of opportunities
+  private baseFee: bigint = BASE_FEE;
+
+  constructor(searchStrategy: SearchStrategy = createSearchStrategy()) {
+    this.searchStrategy = searchStrategy;
+  }
 
   private createEdgeKey(fromToken: Address, pairAddress: Address): EdgeKey {
     return `${fromToken}-${pairAddress}`;
@@ -49,39 +146,25 @@ export class ArbitrageGraph {
   addPair(pair: PairInfo): void {
     const [res0, res1] = [Number(pair.reserve0), Number(pair.reserve1)];
     if (res0 === 0 || res1 === 0) return;
+    if (this.isDenylisted(pair.token0) || this.isDenylisted(pair.token1)) return;
 
     this.tokens.add(pair.token0);
     this.tokens.add(pair.token1);
     this.pairs.set(pair.pairAddress, pair);
 
     this.updateGraphEdges(pair); 
+    // Index the cycles the pair opens, replacing those of a pair added again
+    if (this.cycleIndex) {
+      this.unindexPair(this.cycleIndex, pair.pairAddress);
+      this.indexCycles(this.cycleIndex, pair.pairAddress);
+    }
+    this.prices = null;
+    this.structureVersion++;
   }
 
-  // Helper function to update graph edges for a given pair
+  // Helper function to update graph edges for a given pair.
+  // Drained pairs keep their edges (with zero reserves) until removed, so quotes see them as empty.
   private updateGraphEdges(pair: PairInfo): void {
-    const [res0, res1] = [Number(pair.reserve0), Number(pair.reserve1)];
-    if (res0 === 0 || res1 === 0) return;
-
-    // Update highest reserve tracking for token0
-    const currentBest0 = this.tokenToHighestReservePair.get(pair.token0);
-    if (!currentBest0 || pair.reserve0 > currentBest0.reserves) {
-      this.tokenToHighestReservePair.set(pair.token0, {
-        pairAddress: pair.pairAddress,
-        reserves: pair.reserve0,
-        fee: pair.fee
-      });
-    }
-
-    // Update highest reserve tracking for token1
-    const currentBest1 = this.tokenToHighestReservePair.get(pair.token1);
-    if (!currentBest1 || pair.reserve1 > currentBest1.reserves) {
-      this.tokenToHighestReservePair.set(pair.token1, {
-        pairAddress: pair.pairAddress,
-        reserves: pair.reserve1,
-        fee: pair.fee
-      });
-    }
-
     // Token0 -> Token1 edge
     const edge0Key = this.createEdgeKey(pair.token0, pair.pairAddress);
     const edge0To1 = this.edgeIndex.get(edge0Key);
@@ -91,6 +174,10 @@ export class ArbitrageGraph {
       edge0To1.reserveIn = pair.reserve0;
       edge0To1.reserveOut = pair.reserve1;
       edge0To1.fee = pair.fee;
+      edge0To1.taxIn = pair.tax0?.sellFeeBps ?? 0;
+      edge0To1.taxOut = pair.tax1?.buyFeeBps ?? 0;
+      edge0To1.stable = this.getStableParams(pair, true);
+      edge0To1.v3 = this.getV3Params(pair, true);
     } else {
       // Create new edge
       const newEdge: Edge = {
@@ -100,6 +187,10 @@ export class ArbitrageGraph {
         fee: pair.fee,
         reserveIn: pair.reserve0,
         reserveOut: pair.reserve1,
+        taxIn: pair.tax0?.sellFeeBps ?? 0,
+        taxOut: pair.tax1?.buyFeeBps ?? 0,
+        stable: this.getStableParams(pair, true),
+        v3: this.getV3Params(pair, true),
       };
       
       if (!this.graph.has(pair.token0)) {
@@ -118,6 +209,10 @@ export class ArbitrageGraph {
       edge1To0.reserveIn = pair.reserve1;
       edge1To0.reserveOut = pair.reserve0;
       edge1To0.fee = pair.fee;
+      edge1To0.taxIn = pair.tax1?.sellFeeBps ?? 0;
+      edge1To0.taxOut = pair.tax0?.buyFeeBps ?? 0;
+      edge1To0.stable = this.getStableParams(pair, false);
+      edge1To0.v3 = this.getV3Params(pair, false);
     } else {
       // Create new edge
       const newEdge: Edge = {
@@ -127,6 +222,10 @@ export class ArbitrageGraph {
         fee: pair.fee,
         reserveIn: pair.reserve1,
         reserveOut: pair.reserve0,
+        taxIn: pair.tax1?.sellFeeBps ?? 0,
+        taxOut: pair.tax0?.buyFeeBps ?? 0,
+        stable: this.getStableParams(pair, false),
+        v3: this.getV3Params(pair, false),
       };
       
       if (!this.graph.has(pair.token1)) {
@@ -135,6 +234,64 @@ export class ArbitrageGraph {
       this.graph.get(pair.token1)!.push(newEdge);
       this.edgeIndex.set(edge1Key, newEdge);
     }
+
+    // Edges are current now, so a best pair that lost reserves can be recomputed from them
+    this.trackHighestReservePair(pair.token0, pair, pair.reserve0);
+    this.trackHighestReservePair(pair.token1, pair, pair.reserve1);
+  }
+
+  // Keep the deepest flash swap pair of a token current when one of its pairs changes.
+  // V3 pools can't serve the V2 flash swap, so they never become the best pair.
+  private trackHighestReservePair(token: Address, pair: PairInfo, reserve: bigint): void {
+    const currentBest = this.tokenToHighestReservePair.get(token);
+
+    if (currentBest?.pairAddress === pair.pairAddress) {
+      if (reserve >= currentBest.reserves && reserve > 0n) {
+        currentBest.reserves = reserve;
+        currentBest.fee = pair.fee;
+      } else {
+        this.recomputeHighestReservePair(token);
+      }
+      return;
+    }
+
+    if (!pair.v3 && reserve > 0n && (!currentBest || reserve > currentBest.reserves)) {
+      this.tokenToHighestReservePair.set(token, {
+        pairAddress: pair.pairAddress,
+        reserves: reserve,
+        fee: pair.fee
+      });
+    }
+  }
+
+  // Rescan every pair of a token for the highest reserve, used when the best one shrinks or goes away
+  private recomputeHighestReservePair(token: Address): void {
+    let best: { pairAddress: Address; reserves: bigint; fee: number } | null = null;
+
+    for (const edge of this.graph.get(token) || []) {
+      if (edge.v3 || edge.reserveIn === 0n) continue;
+      if (!best || edge.reserveIn > best.reserves) {
+        best = { pairAddress: edge.pairAddress, reserves: edge.reserveIn, fee: edge.fee };
+      }
+    }
+
+    if (best) {
+      this.tokenToHighestReservePair.set(token, best);
+    } else {
+      this.tokenToHighestReservePair.delete(token);
+    }
+  }
+
+  // Orient the stable pool parameters of a pair in trade direction
+  private getStableParams(pair: PairInfo, zeroForOne: boolean): StableParams | undefined {
+    if (!pair.stable || !pair.decimals0 || !pair.decimals1) return undefined;
+    return zeroForOne
+      ? { decimalsIn: pair.decimals0, decimalsOut: pair.decimals1 }
+      : { decimalsIn: pair.decimals1, decimalsOut: pair.decimals0 };
+  }
+
+  private getV3Params(pair: PairInfo, zeroForOne: boolean): V3Params | undefined {
+    return pair.v3 ? { pool: pair.v3, zeroForOne } : undefined;
   }
 
   // Helper function to update pair reserves without re-building the entire graph
@@ -142,8 +299,9 @@ export class ArbitrageGraph {
     this.updatePairReservesBatch([{ pairAddress, reserve0, reserve1 }]);
   }
 
-  // handle batch updates 
-  updatePairReservesBatch(updates: { pairAddress: Address; reserve0: bigint; reserve1: bigint }[]): void {
+  // handle batch updates, returns the addresses of the pairs that were updated
+  // V3 updates may carry the whole pool state (e.g. from a snapshot on another thread)
+  updatePairReservesBatch(updates: { pairAddress: Address; reserve0: bigint; reserve1: bigint; v3?: V3PoolState }[]): Address[] {
     const updatedPairs = new Set<PairInfo>();
 
     for (const update of updates) {
@@ -156,7 +314,9 @@ export class ArbitrageGraph {
       // Update the reserves in the PairInfo
       pair.reserve0 = update.reserve0;
       pair.reserve1 = update.reserve1;
+      if (update.v3) pair.v3 = update.v3;
       updatedPairs.add(pair);
+      this.changedPairs.add(pair.pairAddress);
 
       if (DEBUG) {
         console.log(`Updated reserves for pair ${update.pairAddress}: ${update.reserve0}, ${update.reserve1}`);
@@ -167,256 +327,441 @@ export class ArbitrageGraph {
     for (const pair of updatedPairs) {
       this.updateGraphEdges(pair);
     }
+    if (updatedPairs.size > 0) this.prices = null;
+
+    return Array.from(updatedPairs, pair => pair.pairAddress);
+  }
+
+  // Remove a single pair and both of its edges, returns false when the pair isn't in the graph
+  removePair(pairAddress: Address): boolean {
+    const pair = this.pairs.get(pairAddress);
+    if (!pair) return false;
+
+    this.pairs.delete(pairAddress);
+
+    for (const token of [pair.token0, pair.token1]) {
+      this.edgeIndex.delete(this.createEdgeKey(token, pairAddress));
+
+      const edges = (this.graph.get(token) || []).filter(edge => edge.pairAddress !== pairAddress);
+      if (edges.length > 0) {
+        this.graph.set(token, edges);
+      } else {
+        // Last pair of the token, nothing can route through it anymore
+        this.graph.delete(token);
+        this.tokens.delete(token);
+      }
+
+      if (this.tokenToHighestReservePair.get(token)?.pairAddress === pairAddress) {
+        this.recomputeHighestReservePair(token);
+      }
+    }
+
+    // Cycles through the pair are gone
+    if (this.cycleIndex) this.unindexPair(this.cycleIndex, pairAddress);
+    this.prices = null;
+    this.structureVersion++;
+    this.changedPairs.delete(pairAddress);
+
+    if (DEBUG) {
+      console.log(`Removed pair ${pairAddress} (${pair.token0} / ${pair.token1})`);
+    }
+    return true;
+  }
+
+  // Remove a token together with every pair it trades in, returns the removed pair addresses
+  removeToken(token: Address): Address[] {
+    const lowercaseToken = token.toLowerCase();
+    const pairAddresses = Array.from(this.pairs.values())
+      .filter(pair => pair.token0.toLowerCase() === lowercaseToken || pair.token1.toLowerCase() === lowercaseToken)
+      .map(pair => pair.pairAddress);
+
+    for (const pairAddress of pairAddresses) {
+      this.removePair(pairAddress);
+    }
+
+    return pairAddresses;
+  }
+
+  // Remove a rugged or honeypot token now and keep addPair from bringing it back
+  denylistToken(token: Address): Address[] {
+    this.denylist.add(token.toLowerCase());
+    return this.removeToken(token);
+  }
+
+  // Lift a denylist entry, pairs removed earlier have to be added again
+  allowToken(token: Address): void {
+    this.denylist.delete(token.toLowerCase());
+  }
+
+  isDenylisted(token: Address): boolean {
+    return this.denylist.has(token.toLowerCase());
+  }
+
+  getDenylist(): string[] {
+    return Array.from(this.denylist);
   }
 
   findArbitrageOpportunities(
     startToken: Address,
     maxDepth: number = maxHops
-  ): { paths: Address[][]; pairs: Address[][]; profits: number[]; optimalAmounts: number[]; fees: number[][] } {
-    const dp: DPTable = {};
-    const rawOpportunities: Array<{
-      path: Address[];
-      pairs: Address[];
-      directions: ('token0ToToken1' | 'token1ToToken0')[];
-    }> = [];
-
-    // Initialize with starting token
-    dp[0] = new Map();
-    dp[0].set(startToken, [
-      {
-        amountOut: 1.0,
-        path: [startToken],
-        pairs: [],
-        directions: [],
-      },
-    ]);
-
-    for (let step = 1; step <= maxDepth; step++) {
-      dp[step] = new Map();
-
-      for (const [currentToken, entries] of dp[step - 1].entries()) {
-        const edges = this.graph.get(currentToken as Address) || [];
-
-        for (const entry of entries) {
-          for (const edge of edges) {
-            // Avoid immediate loops and revisit same pair
-            if (entry.pairs.includes(edge.pairAddress)) continue;
-
-            // Calculate output using actual swap formula
-            const feeMultiplier = 1 - edge.fee / 10000;
-            const amountInAfterFee = entry.amountOut * feeMultiplier;
-            const newAmountOut =
-              (amountInAfterFee * Number(edge.reserveOut)) /
-              (Number(edge.reserveIn) + amountInAfterFee);
-
-            const newEntry: DPEntry = {
-              amountOut: newAmountOut,
-              path: [...entry.path, edge.to],
-              pairs: [...entry.pairs, edge.pairAddress],
-              directions: [...entry.directions, edge.direction],
-            };
-
-            const targetToken = edge.to;
-            if (!dp[step].has(targetToken)) {
-              dp[step].set(targetToken, []);
-            }
+  ): ArbitrageResult {
+    const rawOpportunities = this.findCandidates([startToken], maxDepth);
 
-            // Keep only top entries per token
-            dp[step].get(targetToken)!.push(newEntry);
-            dp[step].get(targetToken)!.sort((a, b) => b.amountOut - a.amountOut);
-            dp[step].get(targetToken)!.splice(MAX_ENTRIES_PER_TOKEN);
-
-            // Record opportunities:
-            // 1. Always check for circular arbitrage (startToken to startToken)
-            // 2. If NERK is true:
-            //    a. Check direct arbitrage (startToken to NERK token)
-            //    b. Check reverse arbitrage (NERK token to startToken)
-            //    c. Check NERK circular arbitrage (NERK token to NERK token)
-            if (step >= 2) {
-            //if (targetToken === startToken || (NERK && targetToken === ADDRESSES[1].address)) {
-              if (targetToken === startToken) {
-                // Case 1: Circular arbitrage
-                rawOpportunities.push({
-                  path: newEntry.path,
-                  pairs: newEntry.pairs,
-                  directions: newEntry.directions,
-                });
-              // New cases start here - codestamp
-              } else if (NERK) {
-                const nerkToken = ADDRESSES[1].address;
-                if (
-                  // Case 2a: Direct arbitrage (startToken to NERK)
-                  (startToken !== nerkToken && targetToken === nerkToken) ||
-                  // Case 2b: Reverse arbitrage (NERK to startToken)
-                  (startToken === nerkToken && targetToken !== nerkToken) ||
-                  // Case 2c: NERK circular arbitrage (NERK to NERK)
-                  (startToken === nerkToken && targetToken === nerkToken)
-                ) {
-                  rawOpportunities.push({
-                    path: newEntry.path,
-                    pairs: newEntry.pairs,
-                    directions: newEntry.directions,
-                  });
-                }
-                // End of new cases - codestamp
-              }
-            }
-          }
-        }
+    // Validate opportunities with actual swap simulation
+    return this.rankOpportunities(this.canonicalizeCandidates(rawOpportunities, [startToken]));
+  }
+
+  // rotationTokens are the tokens cycles may be rotated to start from, the start tokens by
+  // default; search workers pass the full list so every share agrees on the canonical form
+  findMultiTokenArbitrageOpportunities(
+    startTokens: Address[],
+    maxDepth: number = maxHops,
+    rotationTokens: Address[] = startTokens
+  ): ArbitrageResult {
+    const rawOpportunities = this.findCandidates(startTokens, maxDepth);
+
+    // Validate opportunities with actual swap simulation
+    // Each cycle is held to the threshold of the token it starts (and is borrowed) in
+    return this.rankOpportunities(this.canonicalizeCandidates(rawOpportunities, rotationTokens));
+  }
+
+  // Run the configured search strategy over the current edges
+  private findCandidates(startTokens: Address[], maxDepth: number): RawOpportunity[] {
+    const rawOpportunities = this.searchStrategy.findCandidates(
+      token => this.graph.get(token) || [],
+      startTokens,
+      maxDepth
+    );
+
+    if (DEBUG) {
+      console.log(`${this.searchStrategy.name} search found ${rawOpportunities.length} candidate routes`);
+    }
+    return rawOpportunities;
+  }
+
+  getSearchStrategy(): SearchStrategy {
+    return this.searchStrategy;
+  }
+
+  // Swap the cycle finder at runtime, e.g. to compare strategies on the same graph
+  setSearchStrategy(strategy: SearchStrategy): void {
+    this.searchStrategy = strategy;
+  }
+
+  // Re-evaluate only the indexed cycles passing through the given pairs
+  findArbitrageOpportunitiesForPairs(
+    startTokens: Address[],
+    updatedPairs: Address[],
+    maxDepth: number = maxHops,
+    rotationTokens: Address[] = startTokens
+  ): ArbitrageResult {
+    const index = this.getCycleIndex(startTokens, maxDepth);
+
+    const touched = new Set<number>();
+    for (const pairAddress of updatedPairs) {
+      for (const cycleId of index.byPair.get(pairAddress) || []) {
+        touched.add(cycleId);
       }
     }
 
-    // Validate opportunities with actual swap simulation
-    const validated = rawOpportunities
-      .map(opp => {
-        const { maxProfit, optimalInput } = this.calculateMaxProfit(opp);
-        return { ...opp, profit: maxProfit, optimalInput };
-      })
-      .filter(opp => {
-        // Find the index of the starting token in ADDRESSES
-        const tokenIndex = ADDRESSES.findIndex(addr => addr.address === startToken);
-        
-        // Throw an error if no specific profit threshold is defined for this token
-        if (tokenIndex < 0 || tokenIndex >= minProfits.length) {
-          const tokenName = tokenIndex >= 0 ? ADDRESSES[tokenIndex].name : startToken;
-          throw new Error(`No minimum profit threshold defined for token ${tokenName}. Please update the minProfits array in constants.ts.`);
-        }
-        
-        const tokenMinProfit = minProfits[tokenIndex];
-        return opp.profit > Number(tokenMinProfit);
-      })
-      .sort((a, b) => b.profit - a.profit)
-      .slice(0, 20);
+    // Skip cycles whose marginal rate can't be profitable before optimizing
+    const candidates = Array.from(touched, cycleId => index.cycles.get(cycleId)!.cycle)
+      .filter(cycle => this.getMarginalRate(cycle) > 1);
+
+    if (DEBUG) {
+      console.log(`Re-evaluating ${candidates.length}/${touched.size} cycles touched by ${updatedPairs.length} pairs`);
+    }
+
+    return this.rankOpportunities(this.canonicalizeCandidates(candidates, rotationTokens));
+  }
+
+  /**
+   * Keep one copy of every cycle. Copies found from another start token, as a rotation or
+   * at several steps have the same pairs in the same orientation; each cycle is rotated to
+   * start at the rotation token with the cheapest flash loan, the others are kept as
+   * alternatives. Direct routes can't be rotated and are only deduplicated.
+   */
+  private canonicalizeCandidates(rawOpportunities: RawOpportunity[], rotationTokens: Address[]): CanonicalOpportunity[] {
+    const canonical = new Map<string, CanonicalOpportunity>();
+
+    for (const opp of rawOpportunities) {
+      const origin = opp.path[0];
+      const isCycle = origin === opp.path[opp.path.length - 1];
+      const candidate = isCycle
+        ? this.rotateToCheapestStart(opp, rotationTokens)
+        : { ...opp, alternativeStarts: [] };
+
+      // Rotation independent key: the hops read from the lowest pair address on
+      const first = isCycle
+        ? candidate.pairs.reduce((min, pair, i) => (pair.toLowerCase() < candidate.pairs[min].toLowerCase() ? i : min), 0)
+        : 0;
+      const hops = candidate.pairs.map((pair, i) => `${pair}:${candidate.directions[i]}`);
+      const key = `${isCycle ? 'cycle' : candidate.path[0]}|${[...hops.slice(first), ...hops.slice(0, first)].join(',')}`;
+
+      if (!canonical.has(key)) canonical.set(key, candidate);
+    }
+
+    if (DEBUG && canonical.size < rawOpportunities.length) {
+      console.log(`Deduplicated ${rawOpportunities.length} candidate routes to ${canonical.size}`);
+    }
+    return Array.from(canonical.values());
+  }
+
+  // Rotate a cycle to the rotation token on it with the lowest flash loan fee, ties going
+  // to the earlier rotation token. Tokens without a flash pair outside the cycle come last.
+  private rotateToCheapestStart(cycle: RawOpportunity, rotationTokens: Address[]): CanonicalOpportunity {
+    const tokens = cycle.path.slice(0, -1);
+    const starts = rotationTokens.filter(token => tokens.includes(token));
+    if (starts.length === 0) return { ...cycle, alternativeStarts: [] };
 
+    const flashFee = (token: Address): number => {
+      const best = this.tokenToHighestReservePair.get(token);
+      return best && !cycle.pairs.includes(best.pairAddress) ? best.fee : Infinity;
+    };
+    const [start, ...alternativeStarts] = starts
+      .map((token, order) => ({ token, order, fee: flashFee(token) }))
+      .sort((a, b) => a.fee - b.fee || a.order - b.order)
+      .map(({ token }) => token);
+
+    const k = tokens.indexOf(start);
+    const rotated = [...tokens.slice(k), ...tokens.slice(0, k)];
     return {
-      paths: validated.map(opp => opp.path),
-      pairs: validated.map(opp => opp.pairs),
-      profits: validated.map(opp => opp.profit),
-      optimalAmounts: validated.map(opp => opp.optimalInput),
-      fees: validated.map(opp => 
-        opp.pairs.map(pairAddress => {
-          const pair = this.pairs.get(pairAddress);
-          if (!pair) throw new Error(`Missing pair info for ${pairAddress}`);
-          return pair.fee;
-        })
-      ),
+      path: [...rotated, rotated[0]],
+      pairs: [...cycle.pairs.slice(k), ...cycle.pairs.slice(0, k)],
+      directions: [...cycle.directions.slice(k), ...cycle.directions.slice(0, k)],
+      alternativeStarts,
     };
   }
 
-  findMultiTokenArbitrageOpportunities(
-    startTokens: Address[],
-    maxDepth: number = maxHops
-  ): { paths: Address[][]; pairs: Address[][]; profits: number[]; optimalAmounts: number[]; fees: number[][] } {
-    // Initialize a result object with empty arrays
-    const result = {
-      paths: [] as Address[][],
-      pairs: [] as Address[][],
-      profits: [] as number[],
-      optimalAmounts: [] as number[],
-      fees: [] as number[][],
-    };
+  // Build (or reuse) the index of the cycles up to maxDepth hops from the start tokens.
+  // Pairs added or removed later update it in place; it is rebuilt once its ranks are stale,
+  // so cycles left out of a full pair can come back.
+  private getCycleIndex(startTokens: Address[], maxDepth: number): CycleIndex {
+    const key = `${maxDepth}:${startTokens.join(',')}`;
+    if (this.cycleIndex && this.cycleIndex.key === key && Date.now() - this.cycleIndex.builtAt < CYCLE_INDEX_REBUILD_MS) {
+      return this.cycleIndex;
+    }
 
-    // Use a single DP table for all start tokens
-    const dp: DPTable = {};
-    const rawOpportunities: Array<{
-      path: Address[];
-      pairs: Address[];
-      directions: ('token0ToToken1' | 'token1ToToken0')[];
-    }> = [];
-
-    // Initialize with starting tokens
-    dp[0] = new Map();
-    
-    // Add all starting tokens to the initial step of the DP table
-    for (const startToken of startTokens) {
-      dp[0].set(startToken, [
-        {
-          amountOut: 1.0,
-          path: [startToken],
-          pairs: [],
-          directions: [],
-        },
-      ]);
-    }
-
-    // Process all steps of the DP table just once
-    for (let step = 1; step <= maxDepth; step++) {
-      dp[step] = new Map();
-
-      for (const [currentToken, entries] of dp[step - 1].entries()) {
-        const edges = this.graph.get(currentToken as Address) || [];
-
-        for (const entry of entries) {
-          for (const edge of edges) {
-            // Avoid immediate loops and revisit same pair
-            if (entry.pairs.includes(edge.pairAddress)) continue;
-
-            // Calculate output using actual swap formula
-            const feeMultiplier = 1 - edge.fee / 10000;
-            const amountInAfterFee = entry.amountOut * feeMultiplier;
-            const newAmountOut =
-              (amountInAfterFee * Number(edge.reserveOut)) /
-              (Number(edge.reserveIn) + amountInAfterFee);
-
-            const newEntry: DPEntry = {
-              amountOut: newAmountOut,
-              path: [...entry.path, edge.to],
-              pairs: [...entry.pairs, edge.pairAddress],
-              directions: [...entry.directions, edge.direction],
-            };
-
-            const targetToken = edge.to;
-            if (!dp[step].has(targetToken)) {
-              dp[step].set(targetToken, []);
-            }
+    const index: CycleIndex = { key, startTokens, maxDepth, cycles: new Map(), byPair: new Map(), nextId: 0, builtAt: Date.now() };
+    this.indexCycles(index);
+
+    if (DEBUG) {
+      console.log(`Indexed ${index.cycles.size} cycles across ${index.byPair.size} pairs`);
+    }
+
+    this.cycleIndex = index;
+    return index;
+  }
+
+  // Hops from each token to the nearest of the targets, up to maxDepth
+  private getHopDistances(targets: Address[], maxDepth: number): Map<Address, number> {
+    const distances = new Map<Address, number>(targets.map(token => [token, 0]));
+    let frontier = targets;
+    for (let depth = 1; depth <= maxDepth && frontier.length > 0; depth++) {
+      const next: Address[] = [];
+      for (const token of frontier) {
+        for (const edge of this.graph.get(token) || []) {
+          if (distances.has(edge.to)) continue;
+          distances.set(edge.to, depth);
+          next.push(edge.to);
+        }
+      }
+      frontier = next;
+    }
+    return distances;
+  }
 
-            // Keep only top entries per token
-            dp[step].get(targetToken)!.push(newEntry);
-            dp[step].get(targetToken)!.sort((a, b) => b.amountOut - a.amountOut);
-            dp[step].get(targetToken)!.splice(MAX_ENTRIES_PER_TOKEN);
-
-            // Check for arbitrage opportunities with all starting tokens
-            if (step >= 2) {
-              // Check if this is a circular arbitrage back to any starting token
-              if (startTokens.includes(targetToken)) {
-                rawOpportunities.push({
-                  path: newEntry.path,
-                  pairs: newEntry.pairs,
-                  directions: newEntry.directions,
-                });
-              } else if (NERK) {
-                const nerkToken = ADDRESSES[1].address;
-                const originToken = entry.path[0]; // The actual starting token for this path
-                
-                if (
-                  // Case 2a: Direct arbitrage (non-NERK token to NERK)
-                  (originToken !== nerkToken && targetToken === nerkToken) ||
-                  // Case 2b: Reverse arbitrage (NERK to non-NERK token)
-                  (originToken === nerkToken && targetToken !== nerkToken) ||
-                  // Case 2c: NERK circular arbitrage (NERK to NERK)
-                  (originToken === nerkToken && targetToken === nerkToken)
-                ) {
-                  rawOpportunities.push({
-                    path: newEntry.path,
-                    pairs: newEntry.pairs,
-                    directions: newEntry.directions,
-                  });
-                }
-              }
+  /**
+   * Index the cycles from the index's start tokens, only those through requiredPair when given.
+   * Paths end when they return to their start token, and are cut once the hops left can't
+   * close the cycle (or reach requiredPair first).
+   */
+  private indexCycles(index: CycleIndex, requiredPair?: Address): void {
+    const required = requiredPair ? this.pairs.get(requiredPair) : undefined;
+    if (requiredPair && !required) return;
+
+    const pairTokens = required ? [required.token0, required.token1] : [];
+    const toPair = required ? this.getHopDistances(pairTokens, index.maxDepth) : null;
+
+    for (const startToken of index.startTokens) {
+      const toStart = this.getHopDistances([startToken], index.maxDepth);
+      // Fewest hops back to the start once the required pair is crossed
+      const fromPair = Math.min(...pairTokens.map(token => toStart.get(token) ?? Infinity));
+
+      const path: Address[] = [startToken];
+      const pairs: Address[] = [];
+      const directions: Direction[] = [];
+
+      const extend = (usesRequired: boolean): void => {
+        const currentToken = path[path.length - 1];
+        for (const edge of this.graph.get(currentToken) || []) {
+          if (pairs.includes(edge.pairAddress)) continue;
+
+          const hopsLeft = index.maxDepth - pairs.length - 1;
+          const crossed = usesRequired || edge.pairAddress === requiredPair;
+
+          if (edge.to === startToken) {
+            if (pairs.length >= 1 && crossed) {
+              this.addIndexedCycle(index, {
+                path: [...path, edge.to],
+                pairs: [...pairs, edge.pairAddress],
+                directions: [...directions, edge.direction],
+              });
             }
+            continue;
           }
+
+          const closing = crossed
+            ? toStart.get(edge.to) ?? Infinity
+            : (toPair!.get(edge.to) ?? Infinity) + 1 + fromPair;
+          if (closing > hopsLeft) continue;
+
+          path.push(edge.to);
+          pairs.push(edge.pairAddress);
+          directions.push(edge.direction);
+          extend(crossed);
+          path.pop();
+          pairs.pop();
+          directions.pop();
+        }
+      };
+
+      // Without a required pair every path counts as having crossed it
+      extend(!requiredPair);
+    }
+  }
+
+  // Give a cycle a slot at each of its pairs with room, or whose worst cycle it beats
+  private addIndexedCycle(index: CycleIndex, cycle: RawOpportunity): void {
+    const id = index.nextId++;
+    const entry: IndexedCycle = { id, cycle, rate: this.getMarginalRate(cycle) || 0, slots: 0 };
+    index.cycles.set(id, entry);
+
+    for (const pairAddress of cycle.pairs) {
+      const ids = index.byPair.get(pairAddress) ?? [];
+      if (ids.length >= CYCLE_INDEX_MAX_PER_PAIR) {
+        const worst = index.cycles.get(ids[ids.length - 1])!;
+        if (worst.rate >= entry.rate) continue;
+        ids.pop();
+        // A cycle without slots can't be reached anymore
+        if (--worst.slots === 0) index.cycles.delete(worst.id);
+      }
+
+      const position = ids.findIndex(other => index.cycles.get(other)!.rate < entry.rate);
+      ids.splice(position < 0 ? ids.length : position, 0, id);
+      index.byPair.set(pairAddress, ids);
+      entry.slots++;
+    }
+
+    if (entry.slots === 0) index.cycles.delete(id);
+  }
+
+  // Drop every indexed cycle through a pair
+  private unindexPair(index: CycleIndex, pairAddress: Address): void {
+    const ids = index.byPair.get(pairAddress);
+    if (!ids) return;
+    index.byPair.delete(pairAddress);
+
+    for (const id of ids) {
+      const entry = index.cycles.get(id);
+      if (!entry) continue;
+      index.cycles.delete(id);
+
+      for (const other of entry.cycle.pairs) {
+        if (other === pairAddress) continue;
+        const remaining = (index.byPair.get(other) || []).filter(otherId => otherId !== id);
+        if (remaining.length > 0) {
+          index.byPair.set(other, remaining);
+        } else {
+          index.byPair.delete(other);
         }
       }
     }
+  }
 
-    // Validate opportunities with actual swap simulation
+  // Minimum profit in the token's own units, from the minProfits entry at its ADDRESSES index
+  private getMinProfitForToken(token: Address): bigint {
+    const tokenIndex = ADDRESSES.findIndex(addr => addr.address.toLowerCase() === token.toLowerCase());
+
+    // Throw an error if no specific profit threshold is defined for this token
+    if (tokenIndex < 0 || tokenIndex >= minProfits.length) {
+      const tokenName = tokenIndex >= 0 ? ADDRESSES[tokenIndex].name : token;
+      throw new Error(`No minimum profit threshold defined for token ${tokenName}. Please update the minProfits array in constants.ts.`);
+    }
+
+    return minProfits[tokenIndex];
+  }
+
+  // Threshold in start token units: minProfits for cycles, the route's WCRO minimum
+  // converted at the oracle price for direct routes
+  private getMinProfit(opportunity: RawOpportunity): bigint | null {
+    const origin = opportunity.path[0];
+    const target = opportunity.path[opportunity.path.length - 1];
+    if (origin === target) return this.getMinProfitForToken(origin);
+
+    const route = findDirectRoute(origin, target);
+    const price = this.getTokenPrice(origin);
+    if (!route || !price) return null;
+
+    const minProfit = Math.ceil(Number(route.minProfit) / price.price);
+    return Number.isFinite(minProfit) ? BigInt(minProfit) : null;
+  }
+
+  // Value of the last token of a direct route in its first token, from oracle prices.
+  // Undefined for cycles, null when either token is unpriced.
+  private getOutputValue(opportunity: RawOpportunity): OutputValue | undefined | null {
+    const origin = opportunity.path[0];
+    const target = opportunity.path[opportunity.path.length - 1];
+    if (origin === target) return undefined;
+
+    const originPrice = this.getTokenPrice(origin);
+    const targetPrice = this.getTokenPrice(target);
+    if (!originPrice || !targetPrice) return null;
+
+    const ratio = targetPrice.price / originPrice.price;
+    if (!(ratio > 0) || !Number.isFinite(ratio)) return null;
+    return { numerator: BigInt(Math.round(ratio * Number(OUTPUT_VALUE_SCALE))), denominator: OUTPUT_VALUE_SCALE };
+  }
+
+  // Product of the fee and tax adjusted spot rates along a path
+  private getMarginalRate(opportunity: RawOpportunity): number {
+    return this.getSwapHops(opportunity).reduce((rate, hop) => rate * getSpotRate(hop), 1);
+  }
+
+  // Optimize, replay exactly and rank raw opportunities against their profit threshold.
+  // Direct routes are valued in their first token, so profits are always in start token units.
+  private rankOpportunities(rawOpportunities: CanonicalOpportunity[]): ArbitrageResult {
     const validated = rawOpportunities
+      // V3 pools only price tokens for now: the contract can't swap through them, so their
+      // routes would take result slots from executable ones
+      .filter(opp => !this.hasV3Pool(opp.pairs))
+      .map(opp => ({ ...opp, outputValue: this.getOutputValue(opp) }))
+      .filter((opp): opp is typeof opp & { outputValue: OutputValue | undefined } => opp.outputValue !== null)
+      .map(opp => {
+        const { maxProfit, optimalInput, amountIn, errorBound } = this.calculateMaxProfit(opp, opp.outputValue);
+        return { ...opp, profit: maxProfit, optimalInput, amountIn, errorBound };
+      })
+      .filter(opp => opp.profit > 0)
+      .map(opp => {
+        const gasEstimate = this.estimateGas(opp);
+        return {
+          ...opp,
+          exact: this.validateExact(opp, opp.profit, opp.amountIn, opp.outputValue),
+          minProfit: this.getMinProfit(opp),
+          gasEstimate,
+          gasCost: this.getGasCost(opp, gasEstimate),
+        };
+      })
+      .filter((opp): opp is typeof opp & { exact: NonNullable<typeof opp.exact>; minProfit: bigint; gasCost: bigint } =>
+        opp.exact !== null && opp.minProfit !== null && opp.gasCost !== null &&
+        opp.exact.profit - opp.gasCost > opp.minProfit
+      )
       .map(opp => {
-        const { maxProfit, optimalInput } = this.calculateMaxProfit(opp);
-        return { ...opp, profit: maxProfit, optimalInput };
+        const netProfit = opp.exact.profit - opp.gasCost;
+        // Start tokens differ in decimals, so results are ranked on their value in WCRO
+        return { ...opp, netProfit, value: this.valueIn(opp.path[0], netProfit) ?? netProfit };
       })
-      .filter(opp => opp.profit > Number(minProfit))
-      .sort((a, b) => b.profit - a.profit)
+      .sort((a, b) => (b.value > a.value ? 1 : b.value < a.value ? -1 : 0))
       .slice(0, 20);
 
     return {
@@ -431,225 +776,274 @@ export class ArbitrageGraph {
           return pair.fee;
         })
       ),
+      exactProfits: validated.map(opp => opp.exact.profit),
+      netProfits: validated.map(opp => opp.netProfit),
+      gasEstimates: validated.map(opp => opp.gasEstimate),
+      exactAmounts: validated.map(opp => opp.exact.amountIn),
+      amountsOut: validated.map(opp => opp.exact.amountsOut),
+      errorBounds: validated.map(opp => opp.errorBound),
+      minAmountsOut: validated.map(opp =>
+        this.getMinAmountOut(opp.exact.amountIn + opp.gasCost + opp.minProfit, opp.outputValue)
+      ),
+      alternativeStartTokens: validated.map(opp => opp.alternativeStarts),
     };
   }
 
-  private calculateMaxProfit(opportunity: {
-    path: Address[];
-    pairs: Address[];
-    directions: ('token0ToToken1' | 'token1ToToken0')[];
-  }): { maxProfit: number; optimalInput: number } {
-      const pairsInfo = opportunity.pairs.map(pairAddress => {
-          const pair = this.pairs.get(pairAddress);
-          if (!pair) throw new Error(`Missing pair info for ${pairAddress}`);
-          return pair;
-      });
+  /**
+   * Plan a found route with each hop spread over every pool trading the same two tokens.
+   * Parallel pools already used by another hop of the route, and stable or V3 ones
+   * (the split assumes constant product), are left out. Null when no hop has a parallel pool.
+   * Optimizing the split is costly, so it runs on demand for the routes actually reported.
+   */
+  planSplitRoute(path: Address[], pairs: Address[]): ExecutionPlan | null {
+    const opportunity = this.toRawOpportunity(path, pairs);
+    if (!opportunity) return null;
+    const outputValue = this.getOutputValue(opportunity);
+    if (outputValue === null) return null;
+
+    const hopPools = this.getSwapHops(opportunity).map((hop, i) => {
+      if (hop.stable || hop.v3) return [hop];
+
+      const parallel = (this.graph.get(opportunity.path[i]) || []).filter(edge =>
+        edge.to === opportunity.path[i + 1] &&
+        !opportunity.pairs.includes(edge.pairAddress) &&
+        !edge.stable &&
+        !edge.v3 &&
+        edge.reserveIn > 0n &&
+        edge.reserveOut > 0n
+      );
+      return [hop, ...parallel];
+    });
+    if (hopPools.every(pools => pools.length === 1)) return null;
+
+    const route = optimizeSplitRoute(hopPools, outputValue);
+    if (!route) return null;
 
-      //const { calculateProfit, calculateJacobian } = this.createProfitFunctions(opportunity, pairsInfo);
-      const { calculateProfit, calculateJacobian, calculateHessian } = this.createProfitFunctions(opportunity, pairsInfo);
-    //Newton's Method
-    let inputAmount = 9e18; // Initial guess (1 ether)
-    const tolerance = 1e-8;
-    // const maxIterations = 100;
-
-    let maxProfit = -Infinity;
-    let optimalInput = 0;
-
-    for (let i = 0; i < maxIterations; i++) {
-        const profit = calculateProfit(inputAmount);
-        const jacobian = calculateJacobian(inputAmount);
-        const hessian = calculateHessian(inputAmount);
-
-        // Check if the Hessian is invertible (non-zero determinant).
-        if (hessian === 0) {
-            // console.warn("Hessian is zero, cannot invert.");
-            break;
-        }
+    return {
+      amountIn: route.amountIn,
+      amountOut: route.amountOut,
+      profit: route.profit,
+      hops: route.allocations.map((allocations, i) => ({
+        tokenIn: opportunity.path[i],
+        tokenOut: opportunity.path[i + 1],
+        allocations,
+      })),
+    };
+  }
+
+  // Gas of executing a route: a flash loan for cycles, the contract's balance for direct routes
+  private estimateGas(opportunity: RawOpportunity): bigint {
+    const isCycle = opportunity.path[0] === opportunity.path[opportunity.path.length - 1];
+    return GAS_OVERHEAD[isCycle ? 'flash' : 'direct'] + GAS_PER_HOP * BigInt(opportunity.pairs.length);
+  }
 
-        const delta = jacobian / hessian;
-        const newInputAmount = inputAmount - delta;
+  // Gas cost in start token units at the current base fee, null when the start token is unpriced.
+  // The native token is CRO, priced like WCRO.
+  private getGasCost(opportunity: RawOpportunity, gasEstimate: bigint): bigint | null {
+    const price = this.getTokenPrice(opportunity.path[0]);
+    if (!price) return null;
 
+    const cost = Math.ceil(Number(gasEstimate * (this.baseFee + PRIORITY_FEE)) / price.price);
+    return Number.isFinite(cost) ? BigInt(cost) : null;
+  }
 
-          // Check for convergence
-          if (Math.abs(newInputAmount - inputAmount) < tolerance) {
-            break;
-        }
-        inputAmount = Math.max(0, newInputAmount);
+  // Output amount worth `value` start token units, rounded up
+  private getMinAmountOut(value: bigint, outputValue: OutputValue | undefined): bigint {
+    if (!outputValue) return value;
+    return (value * outputValue.denominator + outputValue.numerator - 1n) / outputValue.numerator;
+  }
 
-        if (profit > maxProfit) {
-            maxProfit = profit;
-            optimalInput = inputAmount;
-        }
+  /**
+   * Re-optimize a found route on the current reserves, or on an overlay left by trades
+   * queued before it, with the input capped at maxAmountIn when given (e.g. the balance a
+   * direct route trades from). Null when it no longer clears its profit threshold.
+   */
+  evaluateRoute(path: Address[], pairs: Address[], overlay?: ReserveOverlay, maxAmountIn?: bigint): RouteEvaluation | null {
+    const opportunity = this.toRawOpportunity(path, pairs);
+    if (!opportunity) return null;
+
+    const outputValue = this.getOutputValue(opportunity);
+    const minProfit = this.getMinProfit(opportunity);
+    if (outputValue === null || minProfit === null) return null;
+
+    const gasEstimate = this.estimateGas(opportunity);
+    const gasCost = this.getGasCost(opportunity, gasEstimate);
+    if (gasCost === null) return null;
+
+    const hops = this.getSwapHops(opportunity, overlay);
+    const optimum = findOptimalInput(hops, outputValue);
+    if (!optimum) return null;
+
+    // Profit is concave, so past the optimum's input the cap itself is the best input
+    const amountIn = maxAmountIn !== undefined && optimum.amountIn > maxAmountIn ? maxAmountIn : optimum.amountIn;
+    const amountsOut = simulatePath(hops, amountIn);
+    if (!amountsOut) return null;
 
+    const profit = valueOutput(amountsOut[amountsOut.length - 1], outputValue) - amountIn;
+    if (profit - gasCost <= minProfit) return null;
+
+    return {
+      amountIn,
+      profit,
+      netProfit: profit - gasCost,
+      gasEstimate,
+      amountsOut,
+      minAmountOut: this.getMinAmountOut(amountIn + gasCost + minProfit, outputValue),
+    };
+  }
+
+  /**
+   * Record in the overlay the reserves a route leaves behind after swapping amountIn, and for a
+   * cycle the repayment fee its flash swap pair keeps.
+   * Returns false, leaving the overlay untouched, when the route would revert, has a V3 hop or
+   * is a cycle with no pair to borrow from.
+   */
+  applyRoute(path: Address[], pairs: Address[], amountIn: bigint, overlay: ReserveOverlay): boolean {
+    const opportunity = this.toRawOpportunity(path, pairs);
+    if (!opportunity) return false;
+
+    const hops = this.getSwapHops(opportunity, overlay);
+    const updates: [Address, { reserve0: bigint; reserve1: bigint }][] = [];
+    let amount = amountIn;
+
+    for (let i = 0; i < hops.length; i++) {
+      const reserves = getReservesAfterSwap(hops[i], amount);
+      const amountOut = simulatePath([hops[i]], amount);
+      if (!reserves || !amountOut) return false;
+
+      const zeroForOne = opportunity.directions[i] === 'token0ToToken1';
+      updates.push([hops[i].pairAddress, zeroForOne
+        ? { reserve0: reserves.reserveIn, reserve1: reserves.reserveOut }
+        : { reserve0: reserves.reserveOut, reserve1: reserves.reserveIn }]);
+      amount = amountOut[0];
     }
 
-    return { maxProfit, optimalInput };
+    const startToken = path[0];
+    if (startToken === path[path.length - 1]) {
+      const flashLoanPair = this.findBestPairForToken(startToken, amountIn, pairs);
+      const pair = flashLoanPair && this.pairs.get(flashLoanPair.pairAddress);
+      if (!flashLoanPair || !pair) return false;
+
+      // NArb repays the borrowed amount plus the fee, so the pair's reserve grows by the fee
+      const fee = (amountIn * BigInt(flashLoanPair.fee)) / BigInt(10000 - flashLoanPair.fee) + 1n;
+      const { reserve0, reserve1 } = overlay.get(pair.pairAddress) ?? pair;
+      updates.push([pair.pairAddress, pair.token0 === startToken
+        ? { reserve0: reserve0 + fee, reserve1 }
+        : { reserve0, reserve1: reserve1 + fee }]);
+    }
+
+    for (const [pairAddress, reserves] of updates) {
+      overlay.set(pairAddress, reserves);
+    }
+    return true;
   }
 
-  private createProfitFunctions(
-    opportunity: {
-      path: Address[];
-      pairs: Address[];
-      directions: ('token0ToToken1' | 'token1ToToken0')[];
-    },
-    pairsInfo: PairInfo[]
-  ): {
-      calculateProfit: (inputAmount: number) => number;
-      calculateJacobian: (inputAmount: number) => number;
-      calculateHessian: (inputAmount: number) => number;
-  } {
-    // Swap function (CPMM formula)
-    const swap = (
-      amountIn: number,
-      reserveIn: number,
-      reserveOut: number,
-      fee: number
-    ): number => {
-      const feeMultiplier = 1 - fee / 10000;
-      const amountInAfterFee = amountIn * feeMultiplier;
-      return (amountInAfterFee * reserveOut) / (reserveIn + amountInAfterFee);
-    };
+  // Recover the swap directions of a route from its token path
+  private toRawOpportunity(path: Address[], pairs: Address[]): RawOpportunity | null {
+    const directions: Direction[] = [];
+    for (let i = 0; i < pairs.length; i++) {
+      const pair = this.pairs.get(pairs[i]);
+      if (!pair) return null;
+      directions.push(pair.token0 === path[i] ? 'token0ToToken1' : 'token1ToToken0');
+    }
+    return { path, pairs, directions };
+  }
 
-      // Derivative of swap function
-      const swapDerivative = (
-          amountIn: number,
-          reserveIn: number,
-          reserveOut: number,
-          fee: number
-      ): number => {
-          const feeMultiplier = 1 - fee / 10000;
-          return (feeMultiplier * reserveIn * reserveOut) / ((reserveIn + feeMultiplier * amountIn) ** 2);
+  // Orient the pairs of an opportunity into swap hops using current reserves,
+  // or those of the overlay where it has them
+  private getSwapHops(opportunity: RawOpportunity, overlay?: ReserveOverlay): SwapHop[] {
+    return opportunity.pairs.map((pairAddress, i) => {
+      const pair = this.pairs.get(pairAddress);
+      if (!pair) throw new Error(`Missing pair info for ${pairAddress}`);
+      const zeroForOne = opportunity.directions[i] === 'token0ToToken1';
+      const { reserve0, reserve1 } = overlay?.get(pairAddress) ?? pair;
+      return {
+        pairAddress,
+        reserveIn: zeroForOne ? reserve0 : reserve1,
+        reserveOut: zeroForOne ? reserve1 : reserve0,
+        fee: pair.fee,
+        taxIn: (zeroForOne ? pair.tax0 : pair.tax1)?.sellFeeBps ?? 0,
+        taxOut: (zeroForOne ? pair.tax1 : pair.tax0)?.buyFeeBps ?? 0,
+        stable: this.getStableParams(pair, zeroForOne),
+        v3: this.getV3Params(pair, zeroForOne),
       };
+    });
+  }
 
-       // Second derivative of swap function
-       const swapSecondDerivative = (
-          amountIn: number,
-          reserveIn: number,
-          reserveOut: number,
-          fee: number
-      ): number => {
-          const feeMultiplier = 1 - fee / 10000;
-          return (-2 * feeMultiplier ** 2 * reserveIn * reserveOut) / ((reserveIn + feeMultiplier * amountIn) ** 3);
-      };
+  // Replay the path at the exact optimal input with the contract's integer rounding.
+  // Returns null when the path would revert or the float estimate can't be trusted.
+  private validateExact(
+    opportunity: RawOpportunity,
+    floatProfit: number,
+    amountIn: bigint,
+    outputValue?: OutputValue
+  ): { profit: bigint; amountIn: bigint; amountsOut: bigint[] } | null {
+    if (amountIn < 1n) return null;
+
+    const amountsOut = simulatePath(this.getSwapHops(opportunity), amountIn);
+    if (!amountsOut) return null;
+
+    const profit = valueOutput(amountsOut[amountsOut.length - 1], outputValue) - amountIn;
+    if (profit <= 0n) return null;
+
+    // Allow the relative tolerance plus one unit of rounding per hop
+    const deviation = Math.abs(floatProfit - Number(profit));
+    const allowed = (Number(profit) * EXACT_PROFIT_TOLERANCE_BPS) / 10000 + opportunity.pairs.length;
+    if (deviation > allowed) {
+      if (DEBUG) {
+        console.log(`Discarding ${opportunity.path.join(' -> ')}: float profit ${floatProfit} vs exact ${profit}`);
+      }
+      return null;
+    }
+
+    return { profit, amountIn, amountsOut };
+  }
+
+  private calculateMaxProfit(
+    opportunity: RawOpportunity,
+    outputValue?: OutputValue
+  ): { maxProfit: number; optimalInput: number; amountIn: bigint; errorBound: bigint } {
+    const hops = this.getSwapHops(opportunity);
+
+    const optimum = findOptimalInput(hops, outputValue);
+    if (!optimum) {
+      return { maxProfit: -Infinity, optimalInput: 0, amountIn: 0n, errorBound: 0n };
+    }
+
+    // Float profit at the same input, cross-checked later by validateExact.
+    // The exact input stays a bigint, Number() loses precision above 2^53.
+    const { calculateProfit } = this.createProfitFunctions(hops, outputValue);
+    const optimalInput = Number(optimum.amountIn);
 
+    return { maxProfit: calculateProfit(optimalInput), optimalInput, amountIn: optimum.amountIn, errorBound: optimum.errorBound };
+  }
+
+  private createProfitFunctions(
+    hops: SwapHop[],
+    outputValue?: OutputValue
+  ): {
+      calculateProfit: (inputAmount: number) => number;
+  } {
     // Calculate profit for the entire arbitrage loop
     const calculateProfit = (inputAmount: number): number => {
       try {
         let amount = inputAmount;
-        for (let i = 0; i < opportunity.pairs.length; i++) {
-          const pair = pairsInfo[i];
-          const direction = opportunity.directions[i];
-          
-          let reserveIn, reserveOut;
-          if (direction === 'token0ToToken1') {
-            reserveIn = Number(pair.reserve0);
-            reserveOut = Number(pair.reserve1);
-          } else {
-            reserveIn = Number(pair.reserve1);
-            reserveOut = Number(pair.reserve0);
-          }
-
+        for (const hop of hops) {
           // Check if input exceeds reserves
-          if (amount > reserveIn) {
+          if (amount > Number(hop.reserveIn)) {
             return -Infinity;
           }
 
-          amount = swap(amount, reserveIn, reserveOut, pair.fee);
+          amount = quoteFloat(hop, amount);
         }
+        if (outputValue) amount = (amount * Number(outputValue.numerator)) / Number(outputValue.denominator);
         return amount - inputAmount; // our profit
       } catch {
         return -Infinity;
       }
     };
 
-      // Calculate Jacobian of the profit function (first derivative)
-      const calculateJacobian = (inputAmount: number): number => {
-          let derivative = 1.0; // Start with 1.0 (derivative of input)
-
-          let amount = inputAmount;
-
-          for (let i = 0; i < opportunity.pairs.length; i++) {
-              const pair = pairsInfo[i];
-              const direction = opportunity.directions[i];
-
-              let reserveIn, reserveOut;
-              if (direction === 'token0ToToken1') {
-                  reserveIn = Number(pair.reserve0);
-                  reserveOut = Number(pair.reserve1);
-              } else {
-                  reserveIn = Number(pair.reserve1);
-                  reserveOut = Number(pair.reserve0);
-              }
-               if (amount > reserveIn) {
-                  return 0; // Infeasible
-              }
-              derivative *= swapDerivative(amount, reserveIn, reserveOut, pair.fee);
-              amount = swap(amount, reserveIn, reserveOut, pair.fee);
-          }
-          return derivative - 1; // Subtract 1 (derivative of initial input amount)
-      };
-
-      // Calculate Hessian of the profit function (second derivative)
-      const calculateHessian = (inputAmount: number): number => {
-          let hessian = 0;
-          let amount = inputAmount;
-
-          // First derivative for each swap
-          const swapDerivatives = pairsInfo.map((pair, i) => {
-              const direction = opportunity.directions[i];
-              let reserveIn, reserveOut;
-              if (direction === 'token0ToToken1') {
-                  reserveIn = Number(pair.reserve0);
-                  reserveOut = Number(pair.reserve1);
-              } else {
-                  reserveIn = Number(pair.reserve1);
-                  reserveOut = Number(pair.reserve0);
-              }
-              return swapDerivative(amount, reserveIn, reserveOut, pair.fee);
-          });
-
-          // Second derivative for each swap
-          const swapSecondDerivatives = pairsInfo.map((pair, i) => {
-              const direction = opportunity.directions[i];
-              let reserveIn, reserveOut;
-              if (direction === 'token0ToToken1') {
-                  reserveIn = Number(pair.reserve0);
-                  reserveOut = Number(pair.reserve1);
-              } else {
-                  reserveIn = Number(pair.reserve1);
-                  reserveOut = Number(pair.reserve0);
-              }
-              return swapSecondDerivative(amount, reserveIn, reserveOut, pair.fee);
-          });
-          for (let i = 0; i < opportunity.pairs.length; i++) {
-              const pair = pairsInfo[i];
-              const direction = opportunity.directions[i];
-
-              let reserveIn, reserveOut;
-              if (direction === 'token0ToToken1') {
-                  reserveIn = Number(pair.reserve0);
-                  reserveOut = Number(pair.reserve1);
-              } else {
-                  reserveIn = Number(pair.reserve1);
-                  reserveOut = Number(pair.reserve0);
-              }
-               if (amount > reserveIn) {
-                 return 0;  // Or handle infeasibility differently
-                }
-              let term = swapSecondDerivatives[i];
-              for (let j = 0; j < opportunity.pairs.length; j++) {
-                if (i !== j) {
-                  term *= swapDerivatives[j]
-                }
-              }
-              hessian += term
-               amount = swap(amount, reserveIn, reserveOut, pair.fee);
-
-          }
-           return hessian;
-      };
-
-    return { calculateProfit, calculateJacobian, calculateHessian };
+    return { calculateProfit };
   }
 
   // Fast lookup for pair with highest reserves
@@ -673,15 +1067,142 @@ export class ArbitrageGraph {
     };
   }
 
+  // Oracle price of a token in WCRO, null when no path connects it to WCRO
+  getTokenPrice(token: Address): TokenPrice | null {
+    if (!this.prices) this.prices = this.computePrices();
+    return this.prices.get(token.toLowerCase()) ?? null;
+  }
+
+  // Value of a raw token amount in raw units of a numeraire (WCRO wei or USDC units)
+  valueIn(token: Address, amount: bigint, numeraire: Numeraire = 'WCRO'): bigint | null {
+    const tokenPrice = this.getTokenPrice(token);
+    const numerairePrice = this.getTokenPrice(PRICE_NUMERAIRES[numeraire].address);
+    if (!tokenPrice || !numerairePrice) return null;
+
+    const value = (Number(amount) * tokenPrice.price) / numerairePrice.price;
+    return Number.isFinite(value) ? BigInt(Math.floor(value)) : null;
+  }
+
+  /**
+   * Widest-path search from WCRO: every token is priced through the path whose shallowest
+   * pool is deepest, so thin pools can't set the price of a token that also trades in deep ones.
+   */
+  private computePrices(): Map<string, TokenPrice> {
+    const prices = new Map<string, TokenPrice>();
+    const root = this.getTokens().find(
+      token => token.toLowerCase() === PRICE_NUMERAIRES.WCRO.address.toLowerCase()
+    );
+    if (!root) return prices;
+
+    const frontier = new Map<Address, TokenPrice>([[root, { price: 1, liquidity: Infinity, confidence: 1, path: [root] }]]);
+    const settled = new Set<Address>();
+
+    while (frontier.size > 0) {
+      // Settle the frontier token with the deepest path
+      let token: Address | null = null;
+      let best: TokenPrice | null = null;
+      for (const [candidate, candidatePrice] of frontier) {
+        if (!best || candidatePrice.liquidity > best.liquidity) [token, best] = [candidate, candidatePrice];
+      }
+      if (!token || !best) break;
+
+      frontier.delete(token);
+      settled.add(token);
+      prices.set(token.toLowerCase(), {
+        ...best,
+        confidence: Number.isFinite(best.liquidity)
+          ? best.liquidity / (best.liquidity + Number(ORACLE_REFERENCE_LIQUIDITY))
+          : 1,
+      });
+
+      for (const edge of this.graph.get(token) || []) {
+        if (settled.has(edge.to) || edge.reserveIn === 0n || edge.reserveOut === 0n) continue;
+
+        // Mid price: no swap fee, no transfer taxes
+        const midRate = getSpotRate({ ...edge, fee: 0, taxIn: 0, taxOut: 0 });
+        const depth = Number(edge.reserveIn) * best.price;
+        const liquidity = Math.min(best.liquidity, depth);
+        if (!(midRate > 0) || !Number.isFinite(midRate)) continue;
+
+        const current = frontier.get(edge.to);
+        if (!current || liquidity > current.liquidity) {
+          frontier.set(edge.to, {
+            price: best.price / midRate,
+            liquidity,
+            confidence: 0,
+            path: [...best.path, edge.to],
+          });
+        }
+      }
+    }
+
+    return prices;
+  }
+
   getTokens(): Address[] {
     return Array.from(this.tokens);
   }
 
+  // Number of pairs trading a token
+  getPoolCount(token: Address): number {
+    return this.graph.get(token)?.length ?? 0;
+  }
+
   // Get all pair addresses in the graph
   getPairAddresses(): Address[] {
     return Array.from(this.pairs.keys());
   }
 
+  // V3 pool state for event updates, undefined for V2 pairs
+  getV3Pool(pairAddress: Address): V3PoolState | undefined {
+    return this.pairs.get(pairAddress)?.v3;
+  }
+
+  getV3PoolAddresses(): Address[] {
+    return Array.from(this.pairs.values())
+      .filter(pair => pair.v3)
+      .map(pair => pair.pairAddress);
+  }
+
+  // Whether a path passes through a V3 pool, which the arbitrage contract can't swap through yet
+  hasV3Pool(pairAddresses: Address[]): boolean {
+    return pairAddresses.some(pairAddress => this.pairs.get(pairAddress)?.v3);
+  }
+
+  getPair(pairAddress: Address): PairInfo | undefined {
+    return this.pairs.get(pairAddress);
+  }
+
+  getBaseFee(): bigint {
+    return this.baseFee;
+  }
+
+  setBaseFee(baseFee: bigint): void {
+    this.baseFee = baseFee;
+  }
+
+  getBlockNumber(): bigint | null {
+    return this.blockNumber;
+  }
+
+  // Only moves forward, events can arrive out of order across subscriptions
+  setBlockNumber(blockNumber: bigint): void {
+    if (this.blockNumber === null || blockNumber > this.blockNumber) {
+      this.blockNumber = blockNumber;
+    }
+  }
+
+  getStructureVersion(): number {
+    return this.structureVersion;
+  }
+
+  // Pairs updated since the previous call
+  takeChangedPairs(): Address[] {
+    const changed = Array.from(this.changedPairs);
+    this.changedPairs.clear();
+    return changed;
+  }
+
   // Get all pairs with their info
   getAllPairs(): PairInfo[] {
     return Array.from(this.pairs.values());
@@ -693,5 +1214,12 @@ export class ArbitrageGraph {
     this.pairs.clear();
     this.tokenToHighestReservePair.clear();
     this.edgeIndex.clear();
+    this.cycleIndex = null;
+    this.prices = null;
+    this.structureVersion++;
+    this.changedPairs.clear();
+    this.blockNumber = null;
+    this.baseFee = BASE_FEE;
+    // The denylist is policy rather than graph state, it survives a rebuild
   }
 }
\ No newline at end of file
@@ -1,8 +1,12 @@
-import { formatUnits, type Address } from 'viem';
-import { DEBUG, ADDRESSES, TOP_TOKENS_FOR_ARBITRAGE } from './constants';
+import { type Address } from 'viem';
+import { DEBUG, ADDRESSES, TOP_TOKENS_FOR_ARBITRAGE, DIRECT_ROUTES, minProfits, PRICE_NUMERAIRES, SNAPSHOT_OPPORTUNITIES } from './constants';
 import { ArbitrageGraph } from './graph';
+import { type ExecutionPlan } from './split';
 import { createOpportunityManager } from './execute';
+import { getSearchWorkerPool } from './workers';
+import { serializeGraph, saveOpportunitySnapshot } from './snapshot';
 import { type NetworkConfig } from './network';
+import { tokenRegistry } from './tokens';
 
 export interface ArbitrageOpportunities {
     paths: string[][];
@@ -10,9 +14,53 @@ export interface ArbitrageOpportunities {
     pairs: string[][];
     optimalAmounts: number[];
     fees: number[][];
+    exactProfits: bigint[];
+    netProfits: bigint[];
+    gasEstimates: bigint[];
+    exactAmounts: bigint[];
+    amountsOut: bigint[][];
+    errorBounds: bigint[];
+    minAmountsOut: bigint[];
+    alternativeStartTokens: string[][];
+    // Graph snapshot the opportunities were found in, when SNAPSHOT_OPPORTUNITIES is on
+    snapshotFile?: string;
 }
 
-export function findAndLogArbitrageOpportunities(graph: ArbitrageGraph, networkConfig: NetworkConfig) {
+/**
+ * Check at startup that every start token has a minimum profit threshold and log them.
+ * Thresholds are in each token's own smallest unit, so a USDC entry is compared to USDC profits.
+ * DIRECT_ROUTES thresholds are in WCRO and must start from one of the start tokens.
+ * Amounts are logged through the token registry, so load the start tokens first.
+ */
+export function validateProfitThresholds(): void {
+    if (TOP_TOKENS_FOR_ARBITRAGE > ADDRESSES.length) {
+        throw new Error(`TOP_TOKENS_FOR_ARBITRAGE (${TOP_TOKENS_FOR_ARBITRAGE}) exceeds the ${ADDRESSES.length} tokens in ADDRESSES`);
+    }
+    if (minProfits.length < TOP_TOKENS_FOR_ARBITRAGE) {
+        const missing = ADDRESSES.slice(minProfits.length, TOP_TOKENS_FOR_ARBITRAGE).map(addr => addr.name);
+        throw new Error(`minProfits has ${minProfits.length} entries but TOP_TOKENS_FOR_ARBITRAGE is ${TOP_TOKENS_FOR_ARBITRAGE}. Missing thresholds for: ${missing.join(', ')}`);
+    }
+
+    console.log('Minimum profit thresholds in effect:');
+    ADDRESSES.slice(0, TOP_TOKENS_FOR_ARBITRAGE).forEach((token, i) => {
+        console.log(`  ${token.name} (${token.address}): ${tokenRegistry.formatAmount(token.address, minProfits[i])}`);
+    });
+
+    // Direct routes are found from the start tokens only
+    const startTokens = ADDRESSES.slice(0, TOP_TOKENS_FOR_ARBITRAGE).map(addr => addr.address.toLowerCase());
+    for (const route of DIRECT_ROUTES) {
+        if (!startTokens.includes(route.from.toLowerCase())) {
+            throw new Error(`DIRECT_ROUTES source ${route.from} is not one of the first ${TOP_TOKENS_FOR_ARBITRAGE} tokens in ADDRESSES`);
+        }
+        console.log(`  Direct route ${tokenRegistry.getSymbol(route.from)} -> ${tokenRegistry.getSymbol(route.to)}: ${tokenRegistry.formatAmount(PRICE_NUMERAIRES.WCRO.address, route.minProfit)}`);
+    }
+}
+
+export async function findAndLogArbitrageOpportunities(
+    graph: ArbitrageGraph,
+    networkConfig: NetworkConfig,
+    updatedPairs?: Address[]
+) {
     // Get the top tokens to consider for arbitrage
     const startTokens = ADDRESSES
         .slice(0, Math.min(TOP_TOKENS_FOR_ARBITRAGE, ADDRESSES.length))
@@ -21,14 +69,52 @@ export function findAndLogArbitrageOpportunities(graph: ArbitrageGraph, networkC
     if (DEBUG) {
         console.log(`Searching for arbitrage opportunities using ${startTokens.length} tokens simultaneously`);
         startTokens.forEach((token, i) => {
-            console.log(`Token ${i+1}: ${ADDRESSES[i].name} (${token})`);
+            console.log(`Token ${i+1}: ${tokenRegistry.getSymbol(token)} (${token})`);
         });
     }
     
-    // Use the new method that processes multiple tokens in a single traversal
-    const opportunities = graph.findMultiTokenArbitrageOpportunities(startTokens);
+    // After reserve updates only the cycles touching the updated pairs need re-evaluating.
+    // The cycle index holds circular routes only, so direct routes still need the full traversal.
+    // With search workers the main thread stays free to apply events while the search runs.
+    // Snapshot before searching: events keep changing the graph while workers search
+    const snapshot = SNAPSHOT_OPPORTUNITIES ? serializeGraph(graph) : null;
+    const searchStart = performance.now();
+    const incremental = Boolean(updatedPairs) && DIRECT_ROUTES.length === 0;
+    const pool = getSearchWorkerPool();
+    const result = pool
+        ? await (incremental
+            ? pool.findArbitrageOpportunitiesForPairs(graph, startTokens, updatedPairs!)
+            : pool.findMultiTokenArbitrageOpportunities(graph, startTokens))
+        : incremental
+            ? graph.findArbitrageOpportunitiesForPairs(startTokens, updatedPairs!)
+            : graph.findMultiTokenArbitrageOpportunities(startTokens);
+
+    if (DEBUG) {
+        const searchName = `${incremental ? 'incremental' : graph.getSearchStrategy().name}${pool ? ', workers' : ''}`;
+        console.log(`Arbitrage search (${searchName}) took ${(performance.now() - searchStart).toFixed(2)}ms, ${result.paths.length} opportunities`);
+    }
+
+    const opportunities: ArbitrageOpportunities = { ...result };
+    if (snapshot && result.paths.length > 0) {
+        try {
+            opportunities.snapshotFile = await saveOpportunitySnapshot(
+                snapshot,
+                startTokens,
+                result.paths.map((path, i) => ({
+                    path,
+                    pairs: result.pairs[i],
+                    amountIn: result.exactAmounts[i].toString(),
+                    expectedProfit: result.exactProfits[i].toString(),
+                    netProfit: result.netProfits[i].toString(),
+                })),
+                incremental ? updatedPairs : undefined
+            );
+        } catch (error) {
+            console.error('Failed to save opportunity snapshot:', error);
+        }
+    }
     
-    logArbitrageOpportunities(opportunities);
+    logArbitrageOpportunities(graph, opportunities);
 
     // Only process opportunities if there are any found
     if (opportunities.paths.length > 0) {
@@ -37,8 +123,12 @@ export function findAndLogArbitrageOpportunities(graph: ArbitrageGraph, networkC
             path: path as Address[],
             pairs: opportunities.pairs[index] as Address[],
             fees: opportunities.fees[index],
-            optimalAmount: BigInt(opportunities.optimalAmounts[index]),
-            expectedProfit: BigInt(opportunities.profits[index])
+            optimalAmount: opportunities.exactAmounts[index],
+            expectedProfit: opportunities.exactProfits[index],
+            netProfit: opportunities.netProfits[index],
+            gasEstimate: opportunities.gasEstimates[index],
+            minAmountOut: opportunities.minAmountsOut[index],
+            snapshotFile: opportunities.snapshotFile
         }));
 
         // Create manager and process opportunities
@@ -53,28 +143,68 @@ export function findAndLogArbitrageOpportunities(graph: ArbitrageGraph, networkC
     return opportunities;
 }
 
-function logArbitrageOpportunities(opportunities: ArbitrageOpportunities) {
+// Token amount valued in WCRO and USD through the graph oracle
+function describeValue(graph: ArbitrageGraph, token: Address, amount: bigint): string {
+    const formatted = tokenRegistry.formatAmount(token, amount);
+    const price = graph.getTokenPrice(token);
+    const wcro = graph.valueIn(token, amount, 'WCRO');
+    if (!price || wcro === null) return `${formatted} (unpriced)`;
+
+    // USD is read through USDC, so it has USDC's decimals
+    const usd = graph.valueIn(token, amount, 'USD');
+    const usdText = usd === null ? '' : ` / ${tokenRegistry.toDecimal(PRICE_NUMERAIRES.USD.address, usd)} USD`;
+    return `${formatted} ≈ ${tokenRegistry.formatAmount(PRICE_NUMERAIRES.WCRO.address, wcro)}${usdText} (confidence ${price.confidence.toFixed(2)})`;
+}
+
+function logArbitrageOpportunities(graph: ArbitrageGraph, opportunities: ArbitrageOpportunities) {
     if (opportunities.paths.length > 0) {
         console.log(`\nFound ${opportunities.paths.length} potential arbitrage opportunities:`);
+        if (opportunities.snapshotFile) {
+            console.log(`Graph snapshot: ${opportunities.snapshotFile} (replay with: bun run replay ${opportunities.snapshotFile})`);
+        }
         
         opportunities.paths.forEach((path, index) => {
-            const profit = opportunities.profits[index];
+            const profit = opportunities.exactProfits[index];
             const pairs = opportunities.pairs[index];
             const fees = opportunities.fees[index];
-            const optimalAmount = opportunities.optimalAmounts[index];
-            const profitPercentage = (profit / optimalAmount) * 100;
+            const optimalAmount = opportunities.exactAmounts[index];
+            const amountsOut = opportunities.amountsOut[index];
+            const profitPercentage = (Number(profit) / Number(optimalAmount)) * 100;
             
             if (DEBUG) {
                 console.log(`\nOpportunity #${index + 1}:`);
-                console.log(`Path: ${path.join(' -> ')}`);
-                console.log(`Expected profit: ${formatUnits(BigInt(profit), 18)} ETH`);
-                console.log(`Optimal input amount: ${optimalAmount} wei || ${formatUnits(BigInt(optimalAmount), 18)} ETH`);
+                console.log(`Path: ${path.map(token => tokenRegistry.getSymbol(token as Address)).join(' -> ')} (${path.join(' -> ')})`);
+                console.log(`Expected profit: ${describeValue(graph, path[0] as Address, profit)}`);
+                console.log(`Net of gas: ${describeValue(graph, path[0] as Address, opportunities.netProfits[index])} (~${opportunities.gasEstimates[index]} gas)`);
+                console.log(`Float estimate: ${opportunities.profits[index]} (optimum within ${opportunities.errorBounds[index]} wei)`);
+                console.log(`Optimal input amount: ${describeValue(graph, path[0] as Address, optimalAmount)}`);
+                console.log(`Hop outputs: ${amountsOut.map((amount, i) => tokenRegistry.formatAmount(path[i + 1] as Address, amount)).join(' -> ')}`);
                 console.log(`Profit percentage: ${profitPercentage.toFixed(2)}%`);
                 console.log(`Pairs used: ${pairs.join(', ')}`);
+                const alternatives = opportunities.alternativeStartTokens[index];
+                if (alternatives.length > 0) {
+                    console.log(`Also executable from: ${alternatives.join(', ')}`);
+                }
                 console.log(`Fees: ${fees.map(fee => fee.toString()).join(', ')}`);
+                // Only worth reporting when splitting beats one pool per hop
+                const plan = graph.planSplitRoute(path as Address[], pairs as Address[]);
+                if (plan && plan.profit > profit) logSplitPlan(graph, path[0] as Address, plan, profit);
             }
         });
     } else if (DEBUG) {
         console.log("No profitable arbitrage opportunities found");
     }
 }
+
+// Execution plan of a route split across parallel pools, not executable by the contract yet
+function logSplitPlan(graph: ArbitrageGraph, startToken: Address, plan: ExecutionPlan, singlePoolProfit: bigint) {
+    console.log(`Split plan: profit ${describeValue(graph, startToken, plan.profit)} (+${plan.profit - singlePoolProfit} over one pool per hop)`);
+    const endToken = plan.hops[plan.hops.length - 1].tokenOut;
+    console.log(`  Input: ${tokenRegistry.formatAmount(startToken, plan.amountIn)}, output: ${tokenRegistry.formatAmount(endToken, plan.amountOut)}`);
+    plan.hops.forEach((hop, i) => {
+        console.log(`  Hop ${i + 1} ${tokenRegistry.getSymbol(hop.tokenIn)} -> ${tokenRegistry.getSymbol(hop.tokenOut)}:`);
+        for (const allocation of hop.allocations) {
+            console.log(`    ${allocation.pairAddress} (fee ${allocation.fee}): ${tokenRegistry.formatAmount(hop.tokenIn, allocation.amountIn)} -> ${tokenRegistry.formatAmount(hop.tokenOut, allocation.amountOut)}`);
+        }
+    });
+}
@@ -0,0 +1,178 @@
+import { maxIterations } from './constants';
+import { type SwapHop, FEE_DENOMINATOR, simulatePath, getSpotRate } from './swap';
+
+/**
+ * A chain of constant product swaps and transfer taxes reduced to f(x) = a*x / (b + c*x)
+ */
+type FractionalLinear = { a: bigint; b: bigint; c: bigint };
+
+export type OptimalInput = {
+    amountIn: bigint;
+    profit: bigint;
+    // Upper bound (in start token units) on how far `profit` is from the true optimum
+    errorBound: bigint;
+    method: 'closed-form' | 'search';
+};
+
+/**
+ * Rate converting the final output of a non-circular path into start token units,
+ * numerator / denominator start token units per output token unit
+ */
+export type OutputValue = { numerator: bigint; denominator: bigint };
+
+const IDENTITY: FractionalLinear = { a: 1n, b: 1n, c: 0n };
+
+/**
+ * With g(y) = ga*y / (gb + gc*y), g(f(x)) = ga*fa*x / (gb*fb + (gb*fc + gc*fa)*x)
+ */
+function compose(f: FractionalLinear, g: FractionalLinear): FractionalLinear {
+    return {
+        a: g.a * f.a,
+        b: g.b * f.b,
+        c: g.b * f.c + g.c * f.a,
+    };
+}
+
+// A transfer tax is the linear map x * (10000 - bps) / 10000
+function taxMap(taxBps: number): FractionalLinear {
+    return { a: FEE_DENOMINATOR - BigInt(taxBps), b: FEE_DENOMINATOR, c: 0n };
+}
+
+// Compose one more hop onto the chain: sell tax, swap, then buy tax
+function composeHop(f: FractionalLinear, hop: SwapHop): FractionalLinear {
+    const gamma = FEE_DENOMINATOR - BigInt(hop.fee);
+    const swap = {
+        a: gamma * hop.reserveOut,
+        b: hop.reserveIn * FEE_DENOMINATOR,
+        c: gamma,
+    };
+
+    return compose(compose(compose(f, taxMap(hop.taxIn)), swap), taxMap(hop.taxOut));
+}
+
+function sqrt(value: bigint): bigint {
+    if (value < 2n) return value;
+    let x = value;
+    let y = (x + 1n) / 2n;
+    while (y < x) {
+        x = y;
+        y = (x + value / x) / 2n;
+    }
+    return x;
+}
+
+/**
+ * Final output of a path in start token units
+ */
+export function valueOutput(amountOut: bigint, outputValue?: OutputValue): bigint {
+    return outputValue ? (amountOut * outputValue.numerator) / outputValue.denominator : amountOut;
+}
+
+// Exact profit of the path for a given input, -amountIn when the path would revert
+function profitAt(hops: SwapHop[], amountIn: bigint, outputValue?: OutputValue): bigint {
+    const amountsOut = simulatePath(hops, amountIn);
+    if (!amountsOut) return -amountIn;
+    return valueOutput(amountsOut[amountsOut.length - 1], outputValue) - amountIn;
+}
+
+/**
+ * Closed form optimum of f(x) - x.
+ * f'(x) = ab / (b + cx)^2 = 1  =>  x* = (sqrt(ab) - b) / c, profitable only when a > b.
+ *
+ * Every hop floors its output (and each transfer tax rounds its amount), moving it by
+ * less than one unit which the remaining hops scale by at most their marginal rate at
+ * zero. The bound sums those deviations plus one unit for flooring x* itself.
+ */
+function closedFormOptimum(hops: SwapHop[], outputValue?: OutputValue): OptimalInput | null {
+    let f = hops.reduce(composeHop, IDENTITY);
+    if (outputValue) f = compose(f, { a: outputValue.numerator, b: outputValue.denominator, c: 0n });
+    if (f.a <= f.b || f.c === 0n) return null;
+
+    const amountIn = (sqrt(f.a * f.b) - f.b) / f.c;
+    if (amountIn <= 0n) return null;
+
+    // Converting the output floors once more
+    let downstreamRate = outputValue ? Number(outputValue.numerator) / Number(outputValue.denominator) : 1;
+    let bound = outputValue ? 2 : 1;
+    for (let i = hops.length - 1; i >= 0; i--) {
+        const hop = hops[i];
+        // Output floor and buy tax rounding of this hop
+        bound += downstreamRate * (hop.taxOut > 0 ? 2 : 1);
+        downstreamRate *= getSpotRate(hop);
+        // Sell tax rounding happens before the swap, so the whole hop scales it
+        if (hop.taxIn > 0) bound += downstreamRate / (1 - hop.taxIn / 10000);
+    }
+
+    return {
+        amountIn,
+        profit: profitAt(hops, amountIn, outputValue),
+        errorBound: BigInt(Math.ceil(bound)),
+        method: 'closed-form',
+    };
+}
+
+/**
+ * Bounded ternary search over [0, reserveIn of the first hop].
+ * The profit of a swap chain is concave, so the optimum is bracketed by the final
+ * interval and the chords through its samples cap how much higher it can be.
+ */
+function searchOptimum(hops: SwapHop[], outputValue?: OutputValue): OptimalInput | null {
+    let lo = 0n;
+    let hi = hops[0].reserveIn;
+
+    for (let i = 0; i < maxIterations * 2 && hi - lo > 2n; i++) {
+        const m1 = lo + (hi - lo) / 3n;
+        const m2 = hi - (hi - lo) / 3n;
+        if (profitAt(hops, m1, outputValue) < profitAt(hops, m2, outputValue)) {
+            lo = m1;
+        } else {
+            hi = m2;
+        }
+    }
+
+    const mid = (lo + hi) / 2n;
+    const [pLo, pMid, pHi] = [lo, mid, hi].map(amountIn => profitAt(hops, amountIn, outputValue));
+
+    let amountIn = mid;
+    let profit = pMid;
+    if (pLo > profit) [amountIn, profit] = [lo, pLo];
+    if (pHi > profit) [amountIn, profit] = [hi, pHi];
+    if (profit <= 0n) return null;
+
+    // Extend the outer chords across the bracket, plus one unit of rounding per hop
+    let ceiling = profit;
+    if (mid > lo && hi > mid) {
+        const left = pMid + ((pMid - pHi) * (mid - lo)) / (hi - mid);
+        const right = pMid + ((pMid - pLo) * (hi - mid)) / (mid - lo);
+        ceiling = [left, right, ceiling].reduce((max, value) => (value > max ? value : max));
+    }
+
+    return {
+        amountIn,
+        profit,
+        errorBound: ceiling - profit + BigInt(hops.length),
+        method: 'search',
+    };
+}
+
+/**
+ * Find the input that maximizes the exact profit of a swap path.
+ * Uses the closed form and falls back to a bounded search when the path has
+ * stable or V3 hops, or integer rounding makes the closed form point unprofitable.
+ * Non-circular paths pass the value of their output token in start token units.
+ */
+export function findOptimalInput(hops: SwapHop[], outputValue?: OutputValue): OptimalInput | null {
+    if (hops.length === 0) return null;
+
+    // Profit is concave, so a marginal rate of at most 1 means no input is profitable
+    const outputRate = outputValue ? Number(outputValue.numerator) / Number(outputValue.denominator) : 1;
+    if (hops.reduce((rate, hop) => rate * getSpotRate(hop), outputRate) <= 1) return null;
+
+    if (hops.some(hop => hop.stable || hop.v3)) return searchOptimum(hops, outputValue);
+
+    const closedForm = closedFormOptimum(hops, outputValue);
+    if (!closedForm) return null;
+    if (closedForm.profit > 0n) return closedForm;
+
+    return searchOptimum(hops, outputValue);
+}
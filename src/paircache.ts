@@ -0,0 +1,100 @@
+import { type Address } from 'viem';
+import { createHash } from 'crypto';
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import path from 'path';
+import { CHAIN_ID, DEBUG, FACTORY, PAIR_CACHE_FILE } from './constants';
+
+/**
+ * Format version of the pair cache. Bump it when CachedPair changes shape.
+ */
+export const PAIR_CACHE_VERSION = 1;
+
+/**
+ * A pair as listed by its factory, before any reserves or filters
+ */
+export type CachedPair = {
+    pairAddress: Address;
+    token0: Address;
+    token1: Address;
+    factory: string;
+    fee: number;
+    // Position in the factory's allPairs list
+    index: number;
+};
+
+type FactoryCache = {
+    configHash: string;
+    // Pairs with an index below count are cached
+    count: number;
+    pairs: CachedPair[];
+};
+
+export type PairCache = {
+    version: number;
+    chainId: number;
+    factories: Record<string, FactoryCache>;
+};
+
+/**
+ * Hash of a factory's configuration and the chain, cached pairs are only reused while it matches
+ */
+export function getFactoryConfigHash(factory: typeof FACTORY[0]): string {
+    const config = [CHAIN_ID, factory.name, factory.address.toLowerCase(), factory.fee, factory.volatile, factory.stableFee ?? null];
+    return createHash('sha256').update(JSON.stringify(config)).digest('hex');
+}
+
+function emptyCache(): PairCache {
+    return { version: PAIR_CACHE_VERSION, chainId: CHAIN_ID, factories: {} };
+}
+
+/**
+ * Read the pair cache, an empty one when it is missing, unreadable or from another version or chain
+ */
+export async function loadPairCache(filePath: string = PAIR_CACHE_FILE): Promise<PairCache> {
+    try {
+        const cache = JSON.parse(await readFile(filePath, 'utf8')) as PairCache;
+        if (cache.version !== PAIR_CACHE_VERSION || cache.chainId !== CHAIN_ID) {
+            console.log(`Ignoring pair cache ${filePath}: version ${cache.version} on chain ${cache.chainId}`);
+            return emptyCache();
+        }
+        return cache;
+    } catch (error) {
+        if (DEBUG && (error as NodeJS.ErrnoException).code !== 'ENOENT') {
+            console.error(`Failed to read pair cache ${filePath}:`, error);
+        }
+        return emptyCache();
+    }
+}
+
+export async function savePairCache(cache: PairCache, filePath: string = PAIR_CACHE_FILE): Promise<void> {
+    await mkdir(path.dirname(filePath), { recursive: true });
+    await writeFile(filePath, JSON.stringify(cache));
+}
+
+/**
+ * Cached pairs of a factory, nothing when its configuration changed since they were cached
+ */
+export function getCachedFactoryPairs(cache: PairCache, factory: typeof FACTORY[0]): { count: number; pairs: CachedPair[] } {
+    const entry = cache.factories[factory.name];
+    if (!entry) return { count: 0, pairs: [] };
+
+    if (entry.configHash !== getFactoryConfigHash(factory)) {
+        console.log(`Factory ${factory.name} configuration changed, discarding ${entry.pairs.length} cached pairs`);
+        return { count: 0, pairs: [] };
+    }
+    return { count: entry.count, pairs: entry.pairs };
+}
+
+export function setCachedFactoryPairs(cache: PairCache, factory: typeof FACTORY[0], count: number, pairs: CachedPair[]): void {
+    cache.factories[factory.name] = { configHash: getFactoryConfigHash(factory), count, pairs };
+}
+
+/**
+ * Drop factories no longer in FACTORY
+ */
+export function pruneFactoryCache(cache: PairCache): void {
+    const names = new Set(FACTORY.map(factory => factory.name));
+    for (const name of Object.keys(cache.factories)) {
+        if (!names.has(name)) delete cache.factories[name];
+    }
+}
@@ -0,0 +1,169 @@
+import { type Address, type createPublicClient } from 'viem';
+import { ArbitrageGraph } from './graph';
+import { DEBUG, RECONCILE_INTERVAL_MS, RECONCILE_BATCH_SIZE } from './constants';
+import { getReservesByPairs } from './getinfo';
+import { describeError, getRpcFetcher } from './fetcher';
+
+export type ReserveCorrection = {
+    pairAddress: Address;
+    reserve0: bigint;
+    reserve1: bigint;
+};
+
+/**
+ * How often and by how much the graph's reserves had drifted from the chain
+ */
+export type ReconcileMetrics = {
+    rounds: number;
+    pairsChecked: number;
+    // Changed by an event while being read, left to the event
+    pairsInFlight: number;
+    driftedPairs: number;
+    // Largest relative reserve difference of a drifted pair, in basis points
+    maxDriftBps: number;
+    totalDriftBps: number;
+    lastDriftAt: number | null;
+};
+
+function emptyMetrics(): ReconcileMetrics {
+    return { rounds: 0, pairsChecked: 0, pairsInFlight: 0, driftedPairs: 0, maxDriftBps: 0, totalDriftBps: 0, lastDriftAt: null };
+}
+
+// Relative difference of a graph reserve from the chain's, in basis points
+function driftBps(graphReserve: bigint, chainReserve: bigint): number {
+    const difference = graphReserve > chainReserve ? graphReserve - chainReserve : chainReserve - graphReserve;
+    if (difference === 0n) return 0;
+    if (chainReserve === 0n) return 10000;
+    return Number((difference * 10000n) / chainReserve);
+}
+
+/**
+ * Re-reads V2 reserves in the background to catch Sync events the monitor missed
+ * (a dropped WebSocket, a reset filter). Every interval the next batch of pairs, in rotation,
+ * is read at a block no older than the graph's and compared with the graph; drifted pairs are
+ * handed to onDrift to be corrected. Pairs an event updated during the read are left alone.
+ */
+export class ReserveReconciler {
+    private timer: ReturnType<typeof setInterval> | null = null;
+    private cursor = 0;
+    private reconciling = false;
+    // Metrics of the current rotation and since start
+    private rotation: ReconcileMetrics = emptyMetrics();
+    private total: ReconcileMetrics = emptyMetrics();
+
+    constructor(
+        private readonly graph: ArbitrageGraph,
+        private readonly client: ReturnType<typeof createPublicClient>,
+        private readonly onDrift: (corrections: ReserveCorrection[]) => Promise<void>,
+        private readonly intervalMs: number = RECONCILE_INTERVAL_MS,
+        private readonly batchSize: number = RECONCILE_BATCH_SIZE
+    ) {}
+
+    start(): void {
+        if (this.timer || this.intervalMs <= 0) return;
+        this.timer = setInterval(() => this.reconcileNextBatch(), this.intervalMs);
+        if (DEBUG) console.log(`Reconciling ${this.batchSize} pairs every ${this.intervalMs}ms`);
+    }
+
+    stop(): void {
+        if (this.timer) clearInterval(this.timer);
+        this.timer = null;
+    }
+
+    getMetrics(): ReconcileMetrics {
+        return { ...this.total };
+    }
+
+    // V2 pairs only, V3 pools are reconciled through their own events
+    private nextBatch(): Address[] {
+        const pairs = this.graph.getPairAddresses().filter(pairAddress => !this.graph.getV3Pool(pairAddress));
+        if (pairs.length === 0) return [];
+
+        if (this.cursor >= pairs.length) {
+            this.logRotation(pairs.length);
+            this.cursor = 0;
+        }
+        const batch = pairs.slice(this.cursor, this.cursor + this.batchSize);
+        this.cursor += batch.length;
+        return batch;
+    }
+
+    async reconcileNextBatch(): Promise<void> {
+        // A slow read mustn't overlap the next one
+        if (this.reconciling) return;
+        this.reconciling = true;
+
+        try {
+            const batch = this.nextBatch();
+            if (batch.length === 0) return;
+
+            // Reserves as the graph has them before the read
+            const before = new Map(batch.map(pairAddress => {
+                const pair = this.graph.getPair(pairAddress)!;
+                return [pairAddress, { reserve0: pair.reserve0, reserve1: pair.reserve1 }];
+            }));
+
+            // Events up to the graph's block are applied, so read at that block or later
+            const latest = await this.client.getBlockNumber();
+            const graphBlock = this.graph.getBlockNumber();
+            const blockNumber = graphBlock !== null && graphBlock > latest ? graphBlock : latest;
+            const reserves = await getRpcFetcher(this.client).request(() => getReservesByPairs(this.client, batch, blockNumber));
+
+            const corrections: ReserveCorrection[] = [];
+            batch.forEach((pairAddress, i) => {
+                const pair = this.graph.getPair(pairAddress);
+                const previous = before.get(pairAddress)!;
+                if (!pair || pair.reserve0 !== previous.reserve0 || pair.reserve1 !== previous.reserve1) {
+                    this.record({ pairsInFlight: 1 });
+                    return;
+                }
+
+                const [reserve0, reserve1] = reserves[i];
+                if (reserve0 === pair.reserve0 && reserve1 === pair.reserve1) {
+                    this.record({ pairsChecked: 1 });
+                    return;
+                }
+
+                const drift = Math.max(driftBps(pair.reserve0, reserve0), driftBps(pair.reserve1, reserve1));
+                this.record({ pairsChecked: 1, driftedPairs: 1, totalDriftBps: drift, maxDriftBps: drift, lastDriftAt: Date.now() });
+                corrections.push({ pairAddress, reserve0, reserve1 });
+                if (DEBUG) {
+                    console.log(`Reserves of ${pairAddress} drifted ${drift} bps at block ${blockNumber}: ` +
+                        `${pair.reserve0}/${pair.reserve1} -> ${reserve0}/${reserve1}`);
+                }
+            });
+            this.rotation.rounds++;
+            this.total.rounds++;
+
+            if (corrections.length > 0) {
+                console.log(`Correcting ${corrections.length} pairs whose reserves drifted from the chain`);
+                await this.onDrift(corrections);
+            }
+        } catch (error) {
+            console.error(`Reserve reconciliation failed: ${describeError(error)}`);
+        } finally {
+            this.reconciling = false;
+        }
+    }
+
+    private record(sample: Partial<ReconcileMetrics>): void {
+        for (const metrics of [this.rotation, this.total]) {
+            metrics.pairsChecked += sample.pairsChecked ?? 0;
+            metrics.pairsInFlight += sample.pairsInFlight ?? 0;
+            metrics.driftedPairs += sample.driftedPairs ?? 0;
+            metrics.totalDriftBps += sample.totalDriftBps ?? 0;
+            metrics.maxDriftBps = Math.max(metrics.maxDriftBps, sample.maxDriftBps ?? 0);
+            if (sample.lastDriftAt) metrics.lastDriftAt = sample.lastDriftAt;
+        }
+    }
+
+    // One line per full pass over the graph's pairs
+    private logRotation(pairCount: number): void {
+        const { pairsChecked, pairsInFlight, driftedPairs, totalDriftBps, maxDriftBps } = this.rotation;
+        const share = pairsChecked > 0 ? ((driftedPairs / pairsChecked) * 100).toFixed(2) : '0.00';
+        const mean = driftedPairs > 0 ? (totalDriftBps / driftedPairs).toFixed(1) : '0';
+        console.log(`Reserve reconciliation pass over ${pairCount} pairs: ${driftedPairs}/${pairsChecked} drifted (${share}%), ` +
+            `mean drift ${mean} bps, max ${maxDriftBps} bps, ${pairsInFlight} skipped while events landed`);
+        this.rotation = emptyMetrics();
+    }
+}
@@ -0,0 +1,54 @@
+import { ArbitrageGraph } from './graph';
+import { type PairStateUpdate, type SearchWorkerRequest, type SearchWorkerResponse } from './workers';
+
+// Entry point of a search worker, see SearchWorkerPool
+declare var self: Worker;
+
+const graph = new ArbitrageGraph();
+
+function respond(response: SearchWorkerResponse): void {
+    self.postMessage(response);
+}
+
+self.onmessage = (event: MessageEvent<SearchWorkerRequest>) => {
+    const request = event.data;
+
+    switch (request.type) {
+        case 'snapshot': {
+            // Applied as a diff, so the cycle index is updated for the added and removed pairs
+            // instead of rebuilt
+            const incoming = new Set(request.pairs.map(pair => pair.pairAddress));
+            for (const pairAddress of graph.getPairAddresses()) {
+                if (!incoming.has(pairAddress)) graph.removePair(pairAddress);
+            }
+            const updates: PairStateUpdate[] = [];
+            for (const pair of request.pairs) {
+                const current = graph.getPair(pair.pairAddress);
+                if (!current) {
+                    graph.addPair(pair);
+                } else if (current.reserve0 !== pair.reserve0 || current.reserve1 !== pair.reserve1 || pair.v3) {
+                    updates.push({ pairAddress: pair.pairAddress, reserve0: pair.reserve0, reserve1: pair.reserve1, v3: pair.v3 });
+                }
+            }
+            graph.updatePairReservesBatch(updates);
+            break;
+        }
+
+        case 'update':
+            graph.updatePairReservesBatch(request.updates);
+            break;
+
+        case 'search':
+        case 'searchPairs':
+            try {
+                graph.setBaseFee(request.baseFee);
+                const result = request.type === 'search'
+                    ? graph.findMultiTokenArbitrageOpportunities(request.startTokens, request.maxDepth, request.rotationTokens)
+                    : graph.findArbitrageOpportunitiesForPairs(request.startTokens, request.updatedPairs, request.maxDepth, request.rotationTokens);
+                respond({ id: request.id, result });
+            } catch (error) {
+                respond({ id: request.id, error: error instanceof Error ? error.message : String(error) });
+            }
+            break;
+    }
+};
@@ -0,0 +1,96 @@
+import { type Address } from 'viem';
+import { ArbitrageGraph, type ReserveOverlay, type RouteEvaluation } from './graph';
+import { DEBUG, SELECTION_BEAM_WIDTH } from './constants';
+
+export type SelectionCandidate = {
+    path: Address[];
+    pairs: Address[];
+};
+
+/**
+ * An opportunity re-optimized on the reserves left by the ones selected before it
+ */
+export type SelectedOpportunity<T extends SelectionCandidate> = RouteEvaluation & {
+    opportunity: T;
+    // Net profit valued in WCRO wei, the raw net profit when the start token is unpriced
+    value: bigint;
+    // Reserves left by the opportunities selected before it, which it was evaluated on
+    overlay: ReserveOverlay;
+};
+
+export type Selection<T extends SelectionCandidate> = {
+    // In execution order
+    selected: SelectedOpportunity<T>[];
+    totalValue: bigint;
+};
+
+// A partial execution sequence and the reserves it leaves behind
+type SequenceState<T extends SelectionCandidate> = {
+    overlay: ReserveOverlay;
+    selected: SelectedOpportunity<T>[];
+    used: Set<number>;
+    totalValue: bigint;
+};
+
+/**
+ * Choose which opportunities of a batch to execute, and in what order, to maximize the
+ * total realized profit net of gas. Each step re-simulates every remaining opportunity on the reserves
+ * left by the sequence so far, so opportunities sharing pairs are kept when they still pay.
+ * Those reserves include the repayment fee each cycle's flash swap pair keeps.
+ * Beam search over the sequences, keeping the beamWidth best totals per step.
+ * Profits of different start tokens are compared in WCRO through the graph oracle.
+ */
+export function selectOpportunities<T extends SelectionCandidate>(
+    graph: ArbitrageGraph,
+    candidates: T[],
+    beamWidth: number = SELECTION_BEAM_WIDTH
+): Selection<T> {
+    let beam: SequenceState<T>[] = [{ overlay: new Map(), selected: [], used: new Set(), totalValue: 0n }];
+    let best = beam[0];
+
+    for (let step = 0; step < candidates.length && beam.length > 0; step++) {
+        const next = new Map<string, SequenceState<T>>();
+
+        for (const state of beam) {
+            candidates.forEach((candidate, i) => {
+                if (state.used.has(i)) return;
+
+                const evaluation = graph.evaluateRoute(candidate.path, candidate.pairs, state.overlay);
+                if (!evaluation) return;
+
+                const overlay: ReserveOverlay = new Map(state.overlay);
+                if (!graph.applyRoute(candidate.path, candidate.pairs, evaluation.amountIn, overlay)) return;
+
+                const value = graph.valueIn(candidate.path[0], evaluation.netProfit) ?? evaluation.netProfit;
+                const used = new Set(state.used).add(i);
+                const extended: SequenceState<T> = {
+                    overlay,
+                    selected: [...state.selected, { ...evaluation, opportunity: candidate, value, overlay: state.overlay }],
+                    used,
+                    totalValue: state.totalValue + value,
+                };
+
+                // Orders of the same set compete for one slot
+                const key = Array.from(used).sort((a, b) => a - b).join(',');
+                const existing = next.get(key);
+                if (!existing || extended.totalValue > existing.totalValue) {
+                    next.set(key, extended);
+                }
+            });
+        }
+
+        beam = Array.from(next.values())
+            .sort((a, b) => (b.totalValue > a.totalValue ? 1 : b.totalValue < a.totalValue ? -1 : 0))
+            .slice(0, Math.max(1, beamWidth));
+
+        if (beam.length > 0 && beam[0].totalValue > best.totalValue) {
+            best = beam[0];
+        }
+    }
+
+    if (DEBUG) {
+        console.log(`Selected ${best.selected.length}/${candidates.length} opportunities, total net profit ${best.totalValue} WCRO wei`);
+    }
+
+    return { selected: best.selected, totalValue: best.totalValue };
+}
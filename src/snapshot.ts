@@ -0,0 +1,180 @@
+import { type Address } from 'viem';
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import path from 'path';
+import { ArbitrageGraph, type PairInfo } from './graph';
+import { type V3PoolState } from './v3';
+import { SNAPSHOT_DIR } from './constants';
+
+/**
+ * Format version of graph snapshots. Bump it when SerializedPair changes shape.
+ */
+export const GRAPH_SNAPSHOT_VERSION = 1;
+
+type SerializedV3Pool = {
+    sqrtPriceX96: string;
+    liquidity: string;
+    tick: number;
+    tickSpacing: number;
+    feePips: number;
+    tickBitmap: [number, string][];
+    ticks: [number, string][];
+    minWord: number;
+    maxWord: number;
+};
+
+// PairInfo with bigints as decimal strings so it survives JSON
+type SerializedPair = {
+    pairAddress: Address;
+    token0: Address;
+    token1: Address;
+    reserve0: string;
+    reserve1: string;
+    fee: number;
+    factory?: string;
+    tax0?: PairInfo['tax0'];
+    tax1?: PairInfo['tax1'];
+    stable?: boolean;
+    decimals0?: string;
+    decimals1?: string;
+    v3?: SerializedV3Pool;
+};
+
+/**
+ * A route recorded with the snapshot it was found in
+ */
+export type SnapshotOpportunity = {
+    path: Address[];
+    pairs: Address[];
+    amountIn: string;
+    expectedProfit: string;
+    // Profit net of estimated gas, absent in older snapshots
+    netProfit?: string;
+};
+
+export type GraphSnapshot = {
+    version: number;
+    createdAt: string;
+    // Last block whose events were applied, null when unknown
+    blockNumber: string | null;
+    // Base fee gas was priced at, absent in older snapshots
+    baseFee?: string;
+    pairs: SerializedPair[];
+    denylist: string[];
+    // Start tokens and results of the search the snapshot was taken for
+    startTokens?: Address[];
+    opportunities?: SnapshotOpportunity[];
+    // Updated pairs the incremental search was run for, absent after a full search
+    updatedPairs?: Address[];
+};
+
+function serializeV3Pool(pool: V3PoolState): SerializedV3Pool {
+    return {
+        sqrtPriceX96: pool.sqrtPriceX96.toString(),
+        liquidity: pool.liquidity.toString(),
+        tick: pool.tick,
+        tickSpacing: pool.tickSpacing,
+        feePips: pool.feePips,
+        tickBitmap: Array.from(pool.tickBitmap, ([word, bits]) => [word, bits.toString()]),
+        ticks: Array.from(pool.ticks, ([tick, liquidityNet]) => [tick, liquidityNet.toString()]),
+        minWord: pool.minWord,
+        maxWord: pool.maxWord,
+    };
+}
+
+function deserializeV3Pool(pool: SerializedV3Pool): V3PoolState {
+    return {
+        ...pool,
+        sqrtPriceX96: BigInt(pool.sqrtPriceX96),
+        liquidity: BigInt(pool.liquidity),
+        tickBitmap: new Map(pool.tickBitmap.map(([word, bits]) => [word, BigInt(bits)])),
+        ticks: new Map(pool.ticks.map(([tick, liquidityNet]) => [tick, BigInt(liquidityNet)])),
+    };
+}
+
+/**
+ * Capture the pairs, reserves, fees and factory tags of a graph at its current block
+ */
+export function serializeGraph(graph: ArbitrageGraph): GraphSnapshot {
+    const blockNumber = graph.getBlockNumber();
+
+    return {
+        version: GRAPH_SNAPSHOT_VERSION,
+        createdAt: new Date().toISOString(),
+        blockNumber: blockNumber === null ? null : blockNumber.toString(),
+        baseFee: graph.getBaseFee().toString(),
+        pairs: graph.getAllPairs().map(pair => ({
+            pairAddress: pair.pairAddress,
+            token0: pair.token0,
+            token1: pair.token1,
+            reserve0: pair.reserve0.toString(),
+            reserve1: pair.reserve1.toString(),
+            fee: pair.fee,
+            factory: pair.factory,
+            tax0: pair.tax0,
+            tax1: pair.tax1,
+            stable: pair.stable,
+            decimals0: pair.decimals0?.toString(),
+            decimals1: pair.decimals1?.toString(),
+            v3: pair.v3 && serializeV3Pool(pair.v3),
+        })),
+        denylist: graph.getDenylist(),
+    };
+}
+
+/**
+ * Rebuild a graph from a snapshot, in a fresh graph unless one is given
+ */
+export function restoreGraph(snapshot: GraphSnapshot, graph: ArbitrageGraph = new ArbitrageGraph()): ArbitrageGraph {
+    if (snapshot.version !== GRAPH_SNAPSHOT_VERSION) {
+        throw new Error(`Unsupported graph snapshot version ${snapshot.version} (expected ${GRAPH_SNAPSHOT_VERSION})`);
+    }
+
+    graph.clear();
+    for (const token of snapshot.denylist) {
+        graph.denylistToken(token as Address);
+    }
+
+    for (const pair of snapshot.pairs) {
+        graph.addPair({
+            ...pair,
+            reserve0: BigInt(pair.reserve0),
+            reserve1: BigInt(pair.reserve1),
+            decimals0: pair.decimals0 === undefined ? undefined : BigInt(pair.decimals0),
+            decimals1: pair.decimals1 === undefined ? undefined : BigInt(pair.decimals1),
+            v3: pair.v3 && deserializeV3Pool(pair.v3),
+        });
+    }
+
+    if (snapshot.blockNumber !== null) {
+        graph.setBlockNumber(BigInt(snapshot.blockNumber));
+    }
+    if (snapshot.baseFee !== undefined) {
+        graph.setBaseFee(BigInt(snapshot.baseFee));
+    }
+    return graph;
+}
+
+export async function saveGraphSnapshot(snapshot: GraphSnapshot, filePath: string): Promise<void> {
+    await mkdir(path.dirname(filePath), { recursive: true });
+    await writeFile(filePath, JSON.stringify(snapshot));
+}
+
+export async function loadGraphSnapshot(filePath: string): Promise<GraphSnapshot> {
+    return JSON.parse(await readFile(filePath, 'utf8')) as GraphSnapshot;
+}
+
+/**
+ * Write a snapshot with the opportunities found in it to SNAPSHOT_DIR, returns the file path.
+ * updatedPairs records an incremental search, so the replay runs the same one.
+ */
+export async function saveOpportunitySnapshot(
+    snapshot: GraphSnapshot,
+    startTokens: Address[],
+    opportunities: SnapshotOpportunity[],
+    updatedPairs?: Address[]
+): Promise<string> {
+    const label = snapshot.blockNumber ?? 'unknown';
+    const filePath = path.join(SNAPSHOT_DIR, `opportunities-${label}-${Date.now()}.json`);
+    await saveGraphSnapshot({ ...snapshot, startTokens, opportunities, updatedPairs }, filePath);
+    return filePath;
+}
@@ -0,0 +1,148 @@
+import { type Address } from 'viem';
+import { maxIterations } from './constants';
+import { type SwapHop, quoteExact } from './swap';
+import { type OutputValue, valueOutput } from './optimizer';
+
+/**
+ * The share of a hop's input sent to one pool and what it returns
+ */
+export type PoolAllocation = {
+    pairAddress: Address;
+    fee: number;
+    amountIn: bigint;
+    amountOut: bigint;
+};
+
+export type PlanHop = {
+    tokenIn: Address;
+    tokenOut: Address;
+    allocations: PoolAllocation[];
+};
+
+/**
+ * A route with every hop split across the parallel pools of its token pair
+ */
+export type ExecutionPlan = {
+    amountIn: bigint;
+    amountOut: bigint;
+    // In start token units, direct routes valued like ArbitrageGraph does
+    profit: bigint;
+    hops: PlanHop[];
+};
+
+type SplitRoute = {
+    amountIn: bigint;
+    amountOut: bigint;
+    profit: bigint;
+    allocations: PoolAllocation[][];
+};
+
+/**
+ * Split a hop's input across parallel constant product pools so that every pool used ends
+ * at the same marginal rate (water-filling). With g = 1 - fee, pool k takes
+ *   x_k = s * sqrt(Rin_k * Rout_k / g_k) - Rin_k / g_k,  s = (X + Σ Rin/g) / Σ sqrt(Rin * Rout / g)
+ * over the pools whose marginal rate at zero beats the common one, best first.
+ * The split is found in floats, then every share is quoted exactly.
+ * Returns null when no share of the amount can be swapped.
+ */
+export function splitHopAmount(pools: SwapHop[], amountIn: bigint): PoolAllocation[] | null {
+    const active = pools.filter(pool => pool.reserveIn > 0n && pool.reserveOut > 0n);
+    if (active.length === 0 || amountIn <= 0n) return null;
+
+    const params = active
+        .map(pool => {
+            const g = 1 - pool.fee / 10000;
+            const reserveIn = Number(pool.reserveIn);
+            const reserveOut = Number(pool.reserveOut);
+            return { pool, g, offset: reserveIn / g, depth: Math.sqrt((reserveIn * reserveOut) / g), rate: (g * reserveOut) / reserveIn };
+        })
+        .sort((a, b) => b.rate - a.rate);
+
+    // Grow the set of pools until the next one's rate at zero no longer beats the common rate
+    const total = Number(amountIn);
+    let count = 1;
+    let scale = (total + params[0].offset) / params[0].depth;
+    while (count < params.length) {
+        const next = params[count];
+        // Common marginal rate is 1 / scale², next pool joins when g * Rout / Rin exceeds it
+        if (next.rate * scale * scale <= 1) break;
+        count++;
+        const used = params.slice(0, count);
+        scale = (total + used.reduce((sum, p) => sum + p.offset, 0)) / used.reduce((sum, p) => sum + p.depth, 0);
+    }
+
+    const shares = params.slice(0, count).map(p => Math.max(0, scale * p.depth - p.offset));
+    const shareTotal = shares.reduce((sum, share) => sum + share, 0);
+
+    // Floor every share, the pool with the best rate takes the remainder
+    const amounts = shares.map(share => BigInt(Math.floor((share / shareTotal) * total)));
+    const remainder = amountIn - amounts.reduce((sum, amount) => sum + amount, 0n);
+    amounts[0] += remainder;
+
+    const allocations: PoolAllocation[] = [];
+    for (let i = 0; i < amounts.length; i++) {
+        if (amounts[i] <= 0n) continue;
+        const pool = params[i].pool;
+        const amountOut = quoteExact(pool, amounts[i]);
+        if (amountOut === null) return null;
+        allocations.push({ pairAddress: pool.pairAddress, fee: pool.fee, amountIn: amounts[i], amountOut });
+    }
+    return allocations.length > 0 ? allocations : null;
+}
+
+/**
+ * Replay a route whose hops each split across their pools, null when a hop would revert
+ */
+export function simulateSplitRoute(
+    hopPools: SwapHop[][],
+    amountIn: bigint
+): { allocations: PoolAllocation[][]; amountOut: bigint } | null {
+    const allocations: PoolAllocation[][] = [];
+    let amount = amountIn;
+
+    for (const pools of hopPools) {
+        const hop = splitHopAmount(pools, amount);
+        if (!hop) return null;
+        allocations.push(hop);
+        amount = hop.reduce((sum, allocation) => sum + allocation.amountOut, 0n);
+    }
+
+    return { allocations, amountOut: amount };
+}
+
+function splitProfitAt(hopPools: SwapHop[][], amountIn: bigint, outputValue?: OutputValue): bigint {
+    const route = simulateSplitRoute(hopPools, amountIn);
+    if (!route) return -amountIn;
+    return valueOutput(route.amountOut, outputValue) - amountIn;
+}
+
+/**
+ * Input maximizing the profit of a split route.
+ * Each optimally split hop is concave in its input like a single pool, so the route
+ * profit is too and the same bounded ternary search as searchOptimum applies.
+ */
+export function optimizeSplitRoute(hopPools: SwapHop[][], outputValue?: OutputValue): SplitRoute | null {
+    if (hopPools.length === 0 || hopPools.some(pools => pools.length === 0)) return null;
+
+    let lo = 0n;
+    let hi = hopPools[0].reduce((sum, pool) => sum + pool.reserveIn, 0n);
+
+    for (let i = 0; i < maxIterations * 2 && hi - lo > 2n; i++) {
+        const m1 = lo + (hi - lo) / 3n;
+        const m2 = hi - (hi - lo) / 3n;
+        if (splitProfitAt(hopPools, m1, outputValue) < splitProfitAt(hopPools, m2, outputValue)) {
+            lo = m1;
+        } else {
+            hi = m2;
+        }
+    }
+
+    const amountIn = (lo + hi) / 2n;
+    const route = simulateSplitRoute(hopPools, amountIn);
+    if (!route) return null;
+
+    const profit = valueOutput(route.amountOut, outputValue) - amountIn;
+    if (profit <= 0n) return null;
+
+    return { amountIn, amountOut: route.amountOut, profit, allocations: route.allocations };
+}
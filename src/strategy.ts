@@ -0,0 +1,235 @@
+import { type Address } from 'viem';
+import { DIRECT_ROUTES, MAX_ENTRIES_PER_TOKEN, SEARCH_STRATEGY, type DirectRoute } from './constants';
+import { type SwapHop, getSpotRate, quoteFloat } from './swap';
+
+export type Direction = 'token0ToToken1' | 'token1ToToken0';
+
+/**
+ * A directed graph edge: a swap hop through a pair from the token owning the edge to `to`
+ */
+export interface Edge extends SwapHop {
+    to: Address;
+    direction: Direction;
+}
+
+/**
+ * A candidate route found by a search strategy, not yet optimized or validated
+ */
+export interface RawOpportunity {
+    path: Address[];
+    pairs: Address[];
+    directions: Direction[];
+}
+
+/**
+ * Finds candidate routes from the start tokens over the graph edges.
+ * The graph optimizes, replays and ranks whatever the strategy returns.
+ */
+export interface SearchStrategy {
+    readonly name: string;
+    findCandidates(
+        getEdges: (token: Address) => Edge[],
+        startTokens: Address[],
+        maxDepth: number
+    ): RawOpportunity[];
+}
+
+export type SearchStrategyName = 'dp' | 'spfa';
+
+/**
+ * The DIRECT_ROUTES entry trading `from` into `to`, if any
+ */
+export function findDirectRoute(from: Address, to: Address): DirectRoute | undefined {
+    return DIRECT_ROUTES.find(route =>
+        route.from.toLowerCase() === from.toLowerCase() && route.to.toLowerCase() === to.toLowerCase()
+    );
+}
+
+interface DPEntry {
+    amountOut: number;
+    path: Address[];
+    pairs: Address[];
+    directions: Direction[];
+}
+
+/**
+ * Beam-limited DP: walks every route up to maxDepth hops, keeping the
+ * MAX_ENTRIES_PER_TOKEN best amounts per token and step.
+ * Records cycles back to the origin token, plus the configured DIRECT_ROUTES.
+ */
+export class DPSearchStrategy implements SearchStrategy {
+    readonly name = 'dp';
+
+    findCandidates(
+        getEdges: (token: Address) => Edge[],
+        startTokens: Address[],
+        maxDepth: number
+    ): RawOpportunity[] {
+        const rawOpportunities: RawOpportunity[] = [];
+
+        // Use a single DP table for all start tokens
+        let previous = new Map<Address, DPEntry[]>();
+        for (const startToken of startTokens) {
+            previous.set(startToken, [{ amountOut: 1.0, path: [startToken], pairs: [], directions: [] }]);
+        }
+
+        for (let step = 1; step <= maxDepth; step++) {
+            const current = new Map<Address, DPEntry[]>();
+
+            for (const [currentToken, entries] of previous.entries()) {
+                const edges = getEdges(currentToken);
+
+                for (const entry of entries) {
+                    for (const edge of edges) {
+                        // Avoid immediate loops and revisit same pair
+                        if (entry.pairs.includes(edge.pairAddress)) continue;
+
+                        // Calculate output using the pool's swap formula, taxing tokens as they move in and out
+                        const newEntry: DPEntry = {
+                            amountOut: quoteFloat(edge, entry.amountOut),
+                            path: [...entry.path, edge.to],
+                            pairs: [...entry.pairs, edge.pairAddress],
+                            directions: [...entry.directions, edge.direction],
+                        };
+
+                        // Keep only top entries per token
+                        const targetEntries = current.get(edge.to) || [];
+                        targetEntries.push(newEntry);
+                        targetEntries.sort((a, b) => b.amountOut - a.amountOut);
+                        targetEntries.splice(MAX_ENTRIES_PER_TOKEN);
+                        current.set(edge.to, targetEntries);
+
+                        if (step >= 2 && this.isOpportunity(entry.path[0], edge.to)) {
+                            rawOpportunities.push({
+                                path: newEntry.path,
+                                pairs: newEntry.pairs,
+                                directions: newEntry.directions,
+                            });
+                        }
+                    }
+                }
+            }
+
+            previous = current;
+        }
+
+        return rawOpportunities;
+    }
+
+    // Circular arbitrage back to the origin token, or a configured direct route
+    private isOpportunity(originToken: Address, targetToken: Address): boolean {
+        if (targetToken === originToken) return true;
+        return DIRECT_ROUTES.length > 0 && findDirectRoute(originToken, targetToken) !== undefined;
+    }
+}
+
+// Shortest walk to a token in one Bellman-Ford round and the edge it arrived by
+type LayerEntry = { distance: number; from: Address; edge: Edge | null };
+
+/**
+ * Negative cycle detection on -log(rate) edge weights (see AMM.md).
+ * Source specific Bellman-Ford with exactly k edges per round; like SPFA, a round only
+ * relaxes the tokens whose distance was set in the previous one.
+ * Every relaxation back into the source with a negative total is a cycle whose
+ * marginal rate product exceeds 1. Finds cycles only, DIRECT_ROUTES need the DP strategy.
+ */
+export class SPFASearchStrategy implements SearchStrategy {
+    readonly name = 'spfa';
+
+    findCandidates(
+        getEdges: (token: Address) => Edge[],
+        startTokens: Address[],
+        maxDepth: number
+    ): RawOpportunity[] {
+        const rawOpportunities: RawOpportunity[] = [];
+        const seen = new Set<string>();
+
+        for (const source of startTokens) {
+            // layers[k]: token -> shortest walk of exactly k edges and the edge it arrived by
+            const layers: Map<Address, LayerEntry>[] = [
+                new Map([[source, { distance: 0, from: source, edge: null }]]),
+            ];
+
+            for (let step = 1; step <= maxDepth; step++) {
+                const layer = new Map<Address, LayerEntry>();
+
+                for (const [token, { distance }] of layers[step - 1]) {
+                    for (const edge of getEdges(token)) {
+                        const weight = this.getWeight(edge);
+                        if (weight === null) continue;
+
+                        const total = distance + weight;
+
+                        if (edge.to === source) {
+                            if (step >= 2 && total < 0) {
+                                const cycle = this.reconstruct(layers, step - 1, token, edge);
+                                const key = cycle?.pairs.join(',');
+                                if (cycle && key && !seen.has(key)) {
+                                    seen.add(key);
+                                    rawOpportunities.push(cycle);
+                                }
+                            }
+                            // Walks through the source are cycles already, don't extend them
+                            continue;
+                        }
+
+                        const best = layer.get(edge.to);
+                        if (!best || total < best.distance) {
+                            layer.set(edge.to, { distance: total, from: token, edge });
+                        }
+                    }
+                }
+
+                layers.push(layer);
+            }
+        }
+
+        return rawOpportunities;
+    }
+
+    // -log of the fee and tax adjusted marginal rate, null for unusable edges
+    private getWeight(edge: Edge): number | null {
+        const rate = getSpotRate(edge);
+        if (!(rate > 0) || !Number.isFinite(rate)) return null;
+        return -Math.log(rate);
+    }
+
+    // Follow the predecessors back to the source; null when the walk reuses a pair
+    private reconstruct(
+        layers: Map<Address, LayerEntry>[],
+        step: number,
+        token: Address,
+        closingEdge: Edge
+    ): RawOpportunity | null {
+        const edges: Edge[] = [closingEdge];
+        const path: Address[] = [token, closingEdge.to];
+
+        let current = token;
+        for (let k = step; k > 0; k--) {
+            const node = layers[k].get(current);
+            if (!node || !node.edge) return null;
+            edges.unshift(node.edge);
+            path.unshift(node.from);
+            current = node.from;
+        }
+
+        const pairs = edges.map(edge => edge.pairAddress);
+        if (new Set(pairs).size !== pairs.length) return null;
+
+        return { path, pairs, directions: edges.map(edge => edge.direction) };
+    }
+}
+
+/**
+ * Strategy for a config name, SEARCH_STRATEGY by default
+ */
+export function createSearchStrategy(name: SearchStrategyName = SEARCH_STRATEGY): SearchStrategy {
+    switch (name) {
+        case 'dp':
+            return new DPSearchStrategy();
+        case 'spfa':
+            return new SPFASearchStrategy();
+        default:
+            throw new Error(`Unknown search strategy: ${name}`);
+    }
+}
@@ -0,0 +1,279 @@
+import { type Address } from 'viem';
+import { type V3PoolState, quoteV3ExactIn, getV3Price } from './v3';
+
+// Basis point denominator used by NArb._calculateSwapOutput
+export const FEE_DENOMINATOR = 10000n;
+
+// Fixed point unit of the Solidly stable invariant
+const ONE = 10n ** 18n;
+
+// Iteration cap of BaseV1Pair._get_y
+const STABLE_MAX_ITERATIONS = 255;
+
+/**
+ * Transfer tax of a fee-on-transfer token, as recorded in taxed.json
+ * - buyFeeBps: taken when the token leaves a pair
+ * - sellFeeBps: taken when the token is sent into a pair
+ */
+export type TransferTax = {
+    buyFeeBps: number;
+    sellFeeBps: number;
+};
+
+/**
+ * Solidly/Hermes stable pool parameters (x³y + y³x invariant).
+ * Decimals are scale factors (10 ** decimals) as returned by BaseV1Pair.metadata().
+ */
+export type StableParams = {
+    decimalsIn: bigint;
+    decimalsOut: bigint;
+};
+
+/**
+ * Uniswap V3 pool a hop trades through, with the swap direction in pool terms
+ */
+export type V3Params = {
+    pool: V3PoolState;
+    zeroForOne: boolean;
+};
+
+/**
+ * A single swap leg with reserves already oriented in trade direction.
+ * taxIn is the sell tax of the input token, taxOut the buy tax of the output token.
+ * Constant product unless `stable` or `v3` is set; V3 reserves are the virtual reserves.
+ */
+export type SwapHop = {
+    pairAddress: Address;
+    reserveIn: bigint;
+    reserveOut: bigint;
+    fee: number;
+    taxIn: number;
+    taxOut: number;
+    stable?: StableParams;
+    v3?: V3Params;
+};
+
+/**
+ * Exact integer output of a constant product swap.
+ * Mirrors NArb._calculateSwapOutput so the rounding matches on-chain execution.
+ */
+export function getAmountOut(
+    amountIn: bigint,
+    reserveIn: bigint,
+    reserveOut: bigint,
+    fee: number
+): bigint {
+    const amountInWithFee = amountIn * (FEE_DENOMINATOR - BigInt(fee));
+    const numerator = amountInWithFee * reserveOut;
+    const denominator = reserveIn * FEE_DENOMINATOR + amountInWithFee;
+    return numerator / denominator;
+}
+
+// BaseV1Pair._f: x0*y³ + x0³*y in 1e18 fixed point
+function stableF(x0: bigint, y: bigint): bigint {
+    return (x0 * ((((y * y) / ONE) * y) / ONE)) / ONE + (((((x0 * x0) / ONE) * x0) / ONE) * y) / ONE;
+}
+
+// BaseV1Pair._d: derivative of _f with respect to y
+function stableD(x0: bigint, y: bigint): bigint {
+    return (3n * x0 * ((y * y) / ONE)) / ONE + (((x0 * x0) / ONE) * x0) / ONE;
+}
+
+// BaseV1Pair._get_y: Newton iteration for the y that keeps the invariant at xy
+function stableGetY(x0: bigint, xy: bigint, y: bigint): bigint {
+    for (let i = 0; i < STABLE_MAX_ITERATIONS; i++) {
+        const yPrev = y;
+        const k = stableF(x0, y);
+        const d = stableD(x0, y);
+        if (d === 0n) return y;
+
+        if (k < xy) {
+            y = y + ((xy - k) * ONE) / d;
+        } else {
+            y = y - ((k - xy) * ONE) / d;
+        }
+
+        const delta = y > yPrev ? y - yPrev : yPrev - y;
+        if (delta <= 1n) return y;
+    }
+    return y;
+}
+
+/**
+ * Exact integer output of a Solidly stable swap, mirroring BaseV1Pair.getAmountOut
+ */
+export function getStableAmountOut(
+    amountIn: bigint,
+    reserveIn: bigint,
+    reserveOut: bigint,
+    fee: number,
+    stable: StableParams
+): bigint {
+    const amountInAfterFee = amountIn - (amountIn * BigInt(fee)) / FEE_DENOMINATOR;
+
+    // Normalize everything to 18 decimals
+    const x = (reserveIn * ONE) / stable.decimalsIn;
+    const y = (reserveOut * ONE) / stable.decimalsOut;
+    const xy = (((x * y) / ONE) * ((x * x) / ONE + (y * y) / ONE)) / ONE;
+    const dx = (amountInAfterFee * ONE) / stable.decimalsIn;
+
+    const newY = stableGetY(dx + x, xy, y);
+    if (newY >= y) return 0n;
+
+    return ((y - newY) * stable.decimalsOut) / ONE;
+}
+
+/**
+ * Float output of a Solidly stable swap for the DP search and profit estimates.
+ * Small trades lose everything to cancellation in doubles, so they use the marginal rate.
+ */
+function getStableAmountOutFloat(
+    amountIn: number,
+    reserveIn: number,
+    reserveOut: number,
+    fee: number,
+    stable: StableParams
+): number {
+    const scaleIn = Number(stable.decimalsIn);
+    const scaleOut = Number(stable.decimalsOut);
+    const x = reserveIn / scaleIn;
+    const y = reserveOut / scaleOut;
+    const dx = (amountIn * (1 - fee / 10000)) / scaleIn;
+
+    if (dx < x * 1e-9) {
+        return dx * stableMarginalRate(x, y) * scaleOut;
+    }
+
+    const k = x * x * x * y + y * y * y * x;
+    const x1 = x + dx;
+    let y1 = y;
+    for (let i = 0; i < STABLE_MAX_ITERATIONS; i++) {
+        const f = x1 * x1 * x1 * y1 + y1 * y1 * y1 * x1 - k;
+        const step = f / (x1 * x1 * x1 + 3 * x1 * y1 * y1);
+        y1 -= step;
+        if (Math.abs(step) <= y1 * 1e-15) break;
+    }
+
+    return Math.max(0, (y - y1) * scaleOut);
+}
+
+// -dy/dx along x³y + y³x = k, in normalized units
+function stableMarginalRate(x: number, y: number): number {
+    return (3 * x * x * y + y * y * y) / (x * x * x + 3 * x * y * y);
+}
+
+/**
+ * Amount left after a transfer tax, rounded like a typical token: amount - floor(amount * bps / 10000)
+ */
+export function applyTransferTax(amount: bigint, taxBps: number): bigint {
+    if (taxBps === 0) return amount;
+    return amount - (amount * BigInt(taxBps)) / FEE_DENOMINATOR;
+}
+
+/**
+ * Marginal output per unit of input for an infinitesimal trade, including fee and taxes
+ */
+export function getSpotRate(hop: SwapHop): number {
+    let poolRate = Number(hop.reserveOut) / Number(hop.reserveIn);
+    if (hop.v3) {
+        const price = getV3Price(hop.v3.pool);
+        poolRate = hop.v3.zeroForOne ? price : 1 / price;
+    } else if (hop.stable) {
+        const scaleIn = Number(hop.stable.decimalsIn);
+        const scaleOut = Number(hop.stable.decimalsOut);
+        poolRate = stableMarginalRate(Number(hop.reserveIn) / scaleIn, Number(hop.reserveOut) / scaleOut) *
+            (scaleOut / scaleIn);
+    }
+
+    return (1 - hop.taxIn / 10000) *
+        (1 - hop.fee / 10000) *
+        poolRate *
+        (1 - hop.taxOut / 10000);
+}
+
+/**
+ * Float output of a single hop including transfer taxes
+ */
+export function quoteFloat(hop: SwapHop, amountIn: number): number {
+    const received = amountIn * (1 - hop.taxIn / 10000);
+    const reserveIn = Number(hop.reserveIn);
+    const reserveOut = Number(hop.reserveOut);
+
+    let amountOut: number;
+    if (hop.v3) {
+        // Tiny trades stay inside the current tick, larger ones are quoted across ticks
+        if (received < reserveIn * 1e-9) {
+            amountOut = received * getSpotRate({ ...hop, taxIn: 0, taxOut: 0 });
+        } else {
+            const quoted = quoteV3ExactIn(hop.v3.pool, hop.v3.zeroForOne, BigInt(Math.floor(received)));
+            amountOut = quoted === null ? 0 : Number(quoted);
+        }
+    } else if (hop.stable) {
+        amountOut = getStableAmountOutFloat(received, reserveIn, reserveOut, hop.fee, hop.stable);
+    } else {
+        const amountInAfterFee = received * (1 - hop.fee / 10000);
+        amountOut = (amountInAfterFee * reserveOut) / (reserveIn + amountInAfterFee);
+    }
+
+    return amountOut * (1 - hop.taxOut / 10000);
+}
+
+/**
+ * Exact output of a single hop including transfer taxes, null when the contract would revert
+ */
+export function quoteExact(hop: SwapHop, amountIn: bigint): bigint | null {
+    // Same guards as _executeSwapStep: InvalidReserves / OutputExceedsReserve
+    if (hop.reserveIn === 0n || hop.reserveOut === 0n) return null;
+
+    // The pair only sees what is left after the input token's sell tax
+    const received = applyTransferTax(amountIn, hop.taxIn);
+
+    if (hop.v3) {
+        // Output can exceed the virtual reserves of the active range once ticks are crossed
+        const amountOut = quoteV3ExactIn(hop.v3.pool, hop.v3.zeroForOne, received);
+        if (amountOut === null || amountOut === 0n) return null;
+        return applyTransferTax(amountOut, hop.taxOut);
+    }
+
+    const amountOut = hop.stable
+        ? getStableAmountOut(received, hop.reserveIn, hop.reserveOut, hop.fee, hop.stable)
+        : getAmountOut(received, hop.reserveIn, hop.reserveOut, hop.fee);
+    if (amountOut === 0n || amountOut >= hop.reserveOut) return null;
+
+    return applyTransferTax(amountOut, hop.taxOut);
+}
+
+/**
+ * Reserves of a V2 or stable hop after swapping amountIn through it, null when the swap
+ * would revert or the hop is V3. The fee stays in the pair with the rest of the input.
+ */
+export function getReservesAfterSwap(hop: SwapHop, amountIn: bigint): { reserveIn: bigint; reserveOut: bigint } | null {
+    if (hop.v3 || hop.reserveIn === 0n || hop.reserveOut === 0n) return null;
+
+    const received = applyTransferTax(amountIn, hop.taxIn);
+    const amountOut = hop.stable
+        ? getStableAmountOut(received, hop.reserveIn, hop.reserveOut, hop.fee, hop.stable)
+        : getAmountOut(received, hop.reserveIn, hop.reserveOut, hop.fee);
+    if (amountOut === 0n || amountOut >= hop.reserveOut) return null;
+
+    return { reserveIn: hop.reserveIn + received, reserveOut: hop.reserveOut - amountOut };
+}
+
+/**
+ * Replays a path hop by hop with exact integer math.
+ * Returns the output of every hop, or null when the contract would revert.
+ */
+export function simulatePath(hops: SwapHop[], amountIn: bigint): bigint[] | null {
+    const amountsOut: bigint[] = [];
+    let amount = amountIn;
+
+    for (const hop of hops) {
+        const amountOut = quoteExact(hop, amount);
+        if (amountOut === null) return null;
+
+        amount = amountOut;
+        amountsOut.push(amount);
+    }
+
+    return amountsOut;
+}
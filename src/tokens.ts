@@ -0,0 +1,139 @@
+import { type Address, type createPublicClient, erc20Abi, formatUnits } from 'viem';
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import path from 'path';
+import { ADDRESSES, DEBUG, TOKEN_METADATA_FILE, TOKEN_METADATA_BATCH_SIZE } from './constants';
+import { FetchReport, getRpcFetcher } from './fetcher';
+
+export type TokenInfo = {
+    address: Address;
+    symbol: string;
+    name: string;
+    decimals: number;
+};
+
+// Label of a token without metadata
+function shortAddress(token: Address): string {
+    return `${token.slice(0, 6)}…${token.slice(-4)}`;
+}
+
+/**
+ * Symbol, name and decimals of the graph's tokens, fetched once and cached on disk.
+ * ADDRESSES entries override the symbol (their name) and, when given, the decimals.
+ */
+export class TokenRegistry {
+    private tokens: Map<string, TokenInfo> = new Map();
+
+    // ADDRESSES overrides win over fetched and cached metadata
+    private applyOverrides(): void {
+        for (const { name, address, decimals } of ADDRESSES) {
+            const known = this.tokens.get(address.toLowerCase());
+            if (!known && decimals === undefined) continue;
+            this.tokens.set(address.toLowerCase(), {
+                address,
+                symbol: name,
+                name: known?.name ?? name,
+                decimals: decimals ?? known!.decimals,
+            });
+        }
+    }
+
+    private async loadCache(filePath: string): Promise<void> {
+        try {
+            const cached = JSON.parse(await readFile(filePath, 'utf8')) as TokenInfo[];
+            for (const info of cached) this.tokens.set(info.address.toLowerCase(), info);
+        } catch (error) {
+            if (DEBUG && (error as NodeJS.ErrnoException).code !== 'ENOENT') {
+                console.error(`Failed to read token metadata ${filePath}:`, error);
+            }
+        }
+    }
+
+    /**
+     * Make sure every token has metadata: read the cache, fetch the missing tokens with
+     * multicall and save the cache again. Tokens whose decimals can't be read stay unknown.
+     */
+    async load(
+        client: ReturnType<typeof createPublicClient>,
+        tokens: Address[],
+        filePath: string = TOKEN_METADATA_FILE
+    ): Promise<void> {
+        if (this.tokens.size === 0) await this.loadCache(filePath);
+        this.applyOverrides();
+
+        const missing = Array.from(new Set(tokens.map(token => token.toLowerCase())))
+            .filter(token => !this.tokens.has(token)) as Address[];
+        if (missing.length === 0) return;
+
+        console.log(`Fetching metadata of ${missing.length} tokens...`);
+        const report = new FetchReport();
+        const fetched = await getRpcFetcher(client).fetchInBatches(
+            missing,
+            TOKEN_METADATA_BATCH_SIZE,
+            async batch => {
+                const results = await client.multicall({
+                    contracts: batch.flatMap(address => [
+                        { address, abi: erc20Abi, functionName: 'symbol' },
+                        { address, abi: erc20Abi, functionName: 'name' },
+                        { address, abi: erc20Abi, functionName: 'decimals' },
+                    ] as const),
+                    allowFailure: true,
+                });
+                return batch.map((address, i) => ({ address, results: results.slice(i * 3, i * 3 + 3) }));
+            },
+            (token, reason) => report.skip('metadata', 'token', token, reason)
+        );
+
+        for (const { address, results: [symbol, name, decimals] } of fetched) {
+            if (decimals.status !== 'success') {
+                report.skip('metadata', 'token', address, 'decimals() failed');
+                continue;
+            }
+            // Some tokens return bytes32 names, they get the address instead
+            const label = symbol.status === 'success' ? String(symbol.result) : shortAddress(address);
+            this.tokens.set(address, {
+                address,
+                symbol: label,
+                name: name.status === 'success' ? String(name.result) : label,
+                decimals: Number(decimals.result),
+            });
+        }
+        this.applyOverrides();
+        if (report.skipped.length > 0) report.log();
+
+        try {
+            await mkdir(path.dirname(filePath), { recursive: true });
+            await writeFile(filePath, JSON.stringify(Array.from(this.tokens.values())));
+        } catch (error) {
+            console.error('Failed to save token metadata:', error);
+        }
+    }
+
+    getToken(token: Address): TokenInfo | undefined {
+        return this.tokens.get(token.toLowerCase());
+    }
+
+    getSymbol(token: Address): string {
+        return this.getToken(token)?.symbol ?? shortAddress(token);
+    }
+
+    /**
+     * Raw amount in whole tokens, the raw amount when the decimals are unknown
+     */
+    toDecimal(token: Address, amount: bigint): string {
+        const info = this.getToken(token);
+        return info ? formatUnits(amount, info.decimals) : amount.toString();
+    }
+
+    /**
+     * Raw amount with its symbol, e.g. "1.5 USDC", or "1500000 raw 0x1234…abcd" when the decimals are unknown
+     */
+    formatAmount(token: Address, amount: bigint): string {
+        const info = this.getToken(token);
+        return info
+            ? `${formatUnits(amount, info.decimals)} ${info.symbol}`
+            : `${amount} raw ${shortAddress(token)}`;
+    }
+}
+
+// Singleton instance
+export const tokenRegistry = new TokenRegistry();
@@ -0,0 +1,477 @@
+import { type Address, createPublicClient, parseAbi, zeroAddress } from 'viem';
+import { ADDRESSES, DEBUG, V3_FACTORY, V3_TICK_WORDS } from './constants';
+import { type PairInfo } from './getinfo';
+
+/**
+ * State of a Uniswap V3 pool, enough to quote swaps across initialized ticks.
+ * Ticks are only known inside the loaded bitmap words [minWord, maxWord].
+ */
+export type V3PoolState = {
+    sqrtPriceX96: bigint;
+    liquidity: bigint;
+    tick: number;
+    tickSpacing: number;
+    // Fee in hundredths of a bip (3000 = 0.3%)
+    feePips: number;
+    // Initialized-tick bitmap, word position -> 256 bit word
+    tickBitmap: Map<number, bigint>;
+    // liquidityNet of every initialized tick
+    ticks: Map<number, bigint>;
+    minWord: number;
+    maxWord: number;
+};
+
+const V3_FACTORY_ABI = parseAbi([
+    'function getPool(address tokenA, address tokenB, uint24 fee) view returns (address)',
+]);
+
+const V3_POOL_ABI = parseAbi([
+    'function token0() view returns (address)',
+    'function token1() view returns (address)',
+    'function slot0() view returns (uint160 sqrtPriceX96, int24 tick, uint16 observationIndex, uint16 observationCardinality, uint16 observationCardinalityNext, uint32 feeProtocol, bool unlocked)',
+    'function liquidity() view returns (uint128)',
+    'function tickSpacing() view returns (int24)',
+    'function tickBitmap(int16 wordPosition) view returns (uint256)',
+    'function ticks(int24 tick) view returns (uint128 liquidityGross, int128 liquidityNet, uint256 feeGrowthOutside0X128, uint256 feeGrowthOutside1X128, int56 tickCumulativeOutside, uint160 secondsPerLiquidityOutsideX128, uint32 secondsOutside, bool initialized)',
+]);
+
+const Q96 = 1n << 96n;
+const MAX_UINT160 = (1n << 160n) - 1n;
+const MAX_UINT256 = (1n << 256n) - 1n;
+const MIN_TICK = -887272;
+const MAX_TICK = 887272;
+const MIN_SQRT_RATIO = 4295128739n;
+const MAX_SQRT_RATIO = 1461446703485210103287273052203988822378723970342n;
+const FEE_PIPS_DENOMINATOR = 1000000n;
+
+// TickMath.getSqrtRatioAtTick multipliers for each bit of |tick|
+const TICK_RATIOS: [number, bigint][] = [
+    [0x2, 0xfff97272373d413259a46990580e213an],
+    [0x4, 0xfff2e50f5f656932ef12357cf3c7fdccn],
+    [0x8, 0xffe5caca7e10e4e61c3624eaa0941cd0n],
+    [0x10, 0xffcb9843d60f6159c9db58835c926644n],
+    [0x20, 0xff973b41fa98c081472e6896dfb254c0n],
+    [0x40, 0xff2ea16466c96a3843ec78b326b52861n],
+    [0x80, 0xfe5dee046a99a2a811c461f1969c3053n],
+    [0x100, 0xfcbe86c7900a88aedcffc83b479aa3a4n],
+    [0x200, 0xf987a7253ac413176f2b074cf7815e54n],
+    [0x400, 0xf3392b0822b70005940c7a398e4b70f3n],
+    [0x800, 0xe7159475a2c29b7443b29c7fa6e889d9n],
+    [0x1000, 0xd097f3bdfd2022b8845ad8f792aa5825n],
+    [0x2000, 0xa9f746462d870fdf8a65dc1f90e061e5n],
+    [0x4000, 0x70d869a156d2a1b890bb3df62baf32f7n],
+    [0x8000, 0x31be135f97d08fd981231505542fcfa6n],
+    [0x10000, 0x9aa508b5b7a84e1c677de54f3e99bc9n],
+    [0x20000, 0x5d6af8dedb81196699c329225ee604n],
+    [0x40000, 0x2216e584f5fa1ea926041bedfe98n],
+    [0x80000, 0x48a170391f7dc42444e8fa2n],
+];
+
+function mulDiv(a: bigint, b: bigint, denominator: bigint): bigint {
+    return (a * b) / denominator;
+}
+
+function mulDivRoundingUp(a: bigint, b: bigint, denominator: bigint): bigint {
+    const product = a * b;
+    return product / denominator + (product % denominator > 0n ? 1n : 0n);
+}
+
+function divRoundingUp(a: bigint, b: bigint): bigint {
+    return a / b + (a % b > 0n ? 1n : 0n);
+}
+
+/**
+ * TickMath.getSqrtRatioAtTick
+ */
+export function getSqrtRatioAtTick(tick: number): bigint {
+    const absTick = Math.abs(tick);
+    if (absTick > MAX_TICK) throw new Error(`Tick ${tick} out of range`);
+
+    let ratio = absTick & 0x1
+        ? 0xfffcb933bd6fad37aa2d162d1a594001n
+        : 0x100000000000000000000000000000000n;
+    for (const [bit, multiplier] of TICK_RATIOS) {
+        if (absTick & bit) ratio = (ratio * multiplier) >> 128n;
+    }
+    if (tick > 0) ratio = MAX_UINT256 / ratio;
+
+    return (ratio >> 32n) + (ratio % (1n << 32n) === 0n ? 0n : 1n);
+}
+
+// SqrtPriceMath.getAmount0Delta
+function getAmount0Delta(sqrtA: bigint, sqrtB: bigint, liquidity: bigint, roundUp: boolean): bigint {
+    if (sqrtA > sqrtB) [sqrtA, sqrtB] = [sqrtB, sqrtA];
+    const numerator1 = liquidity << 96n;
+    const numerator2 = sqrtB - sqrtA;
+
+    return roundUp
+        ? divRoundingUp(mulDivRoundingUp(numerator1, numerator2, sqrtB), sqrtA)
+        : mulDiv(numerator1, numerator2, sqrtB) / sqrtA;
+}
+
+// SqrtPriceMath.getAmount1Delta
+function getAmount1Delta(sqrtA: bigint, sqrtB: bigint, liquidity: bigint, roundUp: boolean): bigint {
+    if (sqrtA > sqrtB) [sqrtA, sqrtB] = [sqrtB, sqrtA];
+    return roundUp
+        ? mulDivRoundingUp(liquidity, sqrtB - sqrtA, Q96)
+        : mulDiv(liquidity, sqrtB - sqrtA, Q96);
+}
+
+// SqrtPriceMath.getNextSqrtPriceFromInput
+function getNextSqrtPriceFromInput(sqrtP: bigint, liquidity: bigint, amountIn: bigint, zeroForOne: boolean): bigint {
+    if (amountIn === 0n) return sqrtP;
+
+    if (zeroForOne) {
+        // getNextSqrtPriceFromAmount0RoundingUp, including its uint256 overflow fallback
+        const numerator1 = liquidity << 96n;
+        const product = amountIn * sqrtP;
+        if (product <= MAX_UINT256) {
+            const denominator = numerator1 + product;
+            if (denominator <= MAX_UINT256) {
+                return mulDivRoundingUp(numerator1, sqrtP, denominator);
+            }
+        }
+        return divRoundingUp(numerator1, numerator1 / sqrtP + amountIn);
+    }
+
+    // getNextSqrtPriceFromAmount1RoundingDown
+    const quotient = amountIn <= MAX_UINT160
+        ? (amountIn << 96n) / liquidity
+        : mulDiv(amountIn, Q96, liquidity);
+    return sqrtP + quotient;
+}
+
+// SwapMath.computeSwapStep for exact input
+function computeSwapStep(
+    sqrtP: bigint,
+    sqrtTarget: bigint,
+    liquidity: bigint,
+    amountRemaining: bigint,
+    feePips: number
+): { sqrtNext: bigint; amountIn: bigint; amountOut: bigint; feeAmount: bigint } {
+    const zeroForOne = sqrtP >= sqrtTarget;
+    const fee = BigInt(feePips);
+    const amountRemainingLessFee = mulDiv(amountRemaining, FEE_PIPS_DENOMINATOR - fee, FEE_PIPS_DENOMINATOR);
+
+    let amountIn = zeroForOne
+        ? getAmount0Delta(sqrtTarget, sqrtP, liquidity, true)
+        : getAmount1Delta(sqrtP, sqrtTarget, liquidity, true);
+
+    const sqrtNext = amountRemainingLessFee >= amountIn
+        ? sqrtTarget
+        : getNextSqrtPriceFromInput(sqrtP, liquidity, amountRemainingLessFee, zeroForOne);
+    const max = sqrtNext === sqrtTarget;
+
+    let amountOut: bigint;
+    if (zeroForOne) {
+        if (!max) amountIn = getAmount0Delta(sqrtNext, sqrtP, liquidity, true);
+        amountOut = getAmount1Delta(sqrtNext, sqrtP, liquidity, false);
+    } else {
+        if (!max) amountIn = getAmount1Delta(sqrtP, sqrtNext, liquidity, true);
+        amountOut = getAmount0Delta(sqrtP, sqrtNext, liquidity, false);
+    }
+
+    const feeAmount = max
+        ? mulDivRoundingUp(amountIn, fee, FEE_PIPS_DENOMINATOR - fee)
+        : amountRemaining - amountIn;
+
+    return { sqrtNext, amountIn, amountOut, feeAmount };
+}
+
+function mostSignificantBit(x: bigint): number {
+    return x.toString(2).length - 1;
+}
+
+function leastSignificantBit(x: bigint): number {
+    return mostSignificantBit(x & -x);
+}
+
+function compressTick(tick: number, tickSpacing: number): number {
+    return Math.floor(tick / tickSpacing);
+}
+
+/**
+ * TickBitmap.nextInitializedTickWithinOneWord.
+ * Returns null when the word isn't loaded, since its ticks are unknown.
+ */
+function nextInitializedTickWithinOneWord(
+    pool: V3PoolState,
+    tick: number,
+    lte: boolean
+): { next: number; initialized: boolean } | null {
+    const compressed = compressTick(tick, pool.tickSpacing) + (lte ? 0 : 1);
+    const wordPos = compressed >> 8;
+    const bitPos = compressed & 0xff;
+    if (wordPos < pool.minWord || wordPos > pool.maxWord) return null;
+
+    const word = pool.tickBitmap.get(wordPos) || 0n;
+
+    if (lte) {
+        const mask = (1n << BigInt(bitPos)) - 1n + (1n << BigInt(bitPos));
+        const masked = word & mask;
+        const initialized = masked !== 0n;
+        const next = initialized
+            ? (compressed - (bitPos - mostSignificantBit(masked))) * pool.tickSpacing
+            : (compressed - bitPos) * pool.tickSpacing;
+        return { next, initialized };
+    }
+
+    const mask = MAX_UINT256 ^ ((1n << BigInt(bitPos)) - 1n);
+    const masked = word & mask;
+    const initialized = masked !== 0n;
+    const next = initialized
+        ? (compressed + (leastSignificantBit(masked) - bitPos)) * pool.tickSpacing
+        : (compressed + (255 - bitPos)) * pool.tickSpacing;
+    return { next, initialized };
+}
+
+/**
+ * Exact input quote across initialized ticks, following UniswapV3Pool.swap.
+ * Returns null when the swap would leave the loaded tick range or run out of liquidity.
+ */
+export function quoteV3ExactIn(pool: V3PoolState, zeroForOne: boolean, amountIn: bigint): bigint | null {
+    if (amountIn <= 0n) return 0n;
+
+    let amountRemaining = amountIn;
+    let amountOut = 0n;
+    let sqrtP = pool.sqrtPriceX96;
+    let tick = pool.tick;
+    let liquidity = pool.liquidity;
+    const sqrtLimit = zeroForOne ? MIN_SQRT_RATIO + 1n : MAX_SQRT_RATIO - 1n;
+
+    while (amountRemaining > 0n && sqrtP !== sqrtLimit) {
+        const step = nextInitializedTickWithinOneWord(pool, tick, zeroForOne);
+        if (!step) return null;
+
+        const tickNext = Math.min(Math.max(step.next, MIN_TICK), MAX_TICK);
+        const sqrtNextTick = getSqrtRatioAtTick(tickNext);
+        const sqrtTarget = (zeroForOne ? sqrtNextTick < sqrtLimit : sqrtNextTick > sqrtLimit)
+            ? sqrtLimit
+            : sqrtNextTick;
+
+        const swapStep = computeSwapStep(sqrtP, sqrtTarget, liquidity, amountRemaining, pool.feePips);
+        amountRemaining -= swapStep.amountIn + swapStep.feeAmount;
+        amountOut += swapStep.amountOut;
+        sqrtP = swapStep.sqrtNext;
+
+        if (sqrtP === sqrtNextTick) {
+            if (step.initialized) {
+                const liquidityNet = pool.ticks.get(tickNext) || 0n;
+                liquidity += zeroForOne ? -liquidityNet : liquidityNet;
+                if (liquidity < 0n) return null;
+            }
+            tick = zeroForOne ? tickNext - 1 : tickNext;
+        }
+    }
+
+    return amountRemaining > 0n ? null : amountOut;
+}
+
+/**
+ * Marginal price of token0 in token1 (raw units), before fees
+ */
+export function getV3Price(pool: V3PoolState): number {
+    const sqrtPrice = Number(pool.sqrtPriceX96) / 2 ** 96;
+    return sqrtPrice * sqrtPrice;
+}
+
+/**
+ * Virtual reserves of the active range: x = L / sqrtP, y = L * sqrtP.
+ * Lets V3 pools share reserve-based logic (liquidity ranking, spot rates) with V2 pairs.
+ */
+export function getVirtualReserves(pool: V3PoolState): { reserve0: bigint; reserve1: bigint } {
+    if (pool.sqrtPriceX96 === 0n) return { reserve0: 0n, reserve1: 0n };
+    return {
+        reserve0: (pool.liquidity * Q96) / pool.sqrtPriceX96,
+        reserve1: (pool.liquidity * pool.sqrtPriceX96) / Q96,
+    };
+}
+
+// Flip a tick in the bitmap when it becomes (un)initialized
+function flipTick(pool: V3PoolState, tick: number): void {
+    const compressed = compressTick(tick, pool.tickSpacing);
+    const wordPos = compressed >> 8;
+    const bitPos = BigInt(compressed & 0xff);
+    pool.tickBitmap.set(wordPos, (pool.tickBitmap.get(wordPos) || 0n) ^ (1n << bitPos));
+}
+
+function updateTick(pool: V3PoolState, tick: number, liquidityDelta: bigint): void {
+    const before = pool.ticks.get(tick) || 0n;
+    const after = before + liquidityDelta;
+
+    if (after === 0n) {
+        pool.ticks.delete(tick);
+    } else {
+        pool.ticks.set(tick, after);
+    }
+    if ((before === 0n) !== (after === 0n)) flipTick(pool, tick);
+}
+
+/**
+ * Apply a Swap event: the pool reports its new price, tick and active liquidity
+ */
+export function applyV3Swap(pool: V3PoolState, sqrtPriceX96: bigint, liquidity: bigint, tick: number): void {
+    pool.sqrtPriceX96 = sqrtPriceX96;
+    pool.liquidity = liquidity;
+    pool.tick = tick;
+}
+
+/**
+ * Apply a Mint (positive delta) or Burn (negative delta) event to the tick state
+ */
+export function applyV3LiquidityChange(
+    pool: V3PoolState,
+    tickLower: number,
+    tickUpper: number,
+    liquidityDelta: bigint
+): void {
+    updateTick(pool, tickLower, liquidityDelta);
+    updateTick(pool, tickUpper, -liquidityDelta);
+
+    if (pool.tick >= tickLower && pool.tick < tickUpper) {
+        pool.liquidity += liquidityDelta;
+    }
+}
+
+/**
+ * Load the state of one pool: price, liquidity and the bitmap words around the current tick
+ */
+async function getV3PoolState(
+    client: ReturnType<typeof createPublicClient>,
+    poolAddress: Address
+): Promise<{ token0: Address; token1: Address; state: V3PoolState }> {
+    const contract = { address: poolAddress, abi: V3_POOL_ABI } as const;
+    const [token0, token1, slot0, liquidity, tickSpacing] = await client.multicall({
+        contracts: [
+            { ...contract, functionName: 'token0' },
+            { ...contract, functionName: 'token1' },
+            { ...contract, functionName: 'slot0' },
+            { ...contract, functionName: 'liquidity' },
+            { ...contract, functionName: 'tickSpacing' },
+        ],
+        allowFailure: false,
+    });
+
+    const [sqrtPriceX96, tick] = slot0;
+    const currentWord = compressTick(tick, tickSpacing) >> 8;
+    const minWord = currentWord - V3_TICK_WORDS;
+    const maxWord = currentWord + V3_TICK_WORDS;
+
+    const wordPositions = Array.from({ length: maxWord - minWord + 1 }, (_, i) => minWord + i);
+    const words = await client.multicall({
+        contracts: wordPositions.map(wordPosition => ({
+            ...contract,
+            functionName: 'tickBitmap',
+            args: [wordPosition],
+        } as const)),
+        allowFailure: false,
+    });
+
+    const tickBitmap = new Map<number, bigint>();
+    const initializedTicks: number[] = [];
+    words.forEach((word, i) => {
+        if (word === 0n) return;
+        tickBitmap.set(wordPositions[i], word);
+        for (let bit = 0; bit < 256; bit++) {
+            if ((word >> BigInt(bit)) & 1n) {
+                initializedTicks.push(((wordPositions[i] << 8) + bit) * tickSpacing);
+            }
+        }
+    });
+
+    const tickData = await client.multicall({
+        contracts: initializedTicks.map(initializedTick => ({
+            ...contract,
+            functionName: 'ticks',
+            args: [initializedTick],
+        } as const)),
+        allowFailure: false,
+    });
+
+    const ticks = new Map<number, bigint>();
+    tickData.forEach(([, liquidityNet], i) => ticks.set(initializedTicks[i], liquidityNet));
+
+    return {
+        token0,
+        token1,
+        state: {
+            sqrtPriceX96,
+            liquidity,
+            tick,
+            tickSpacing,
+            feePips: 0, // set by the caller from the fee tier
+            tickBitmap,
+            ticks,
+            minWord,
+            maxWord,
+        },
+    };
+}
+
+/**
+ * Fetches the V3 pools of every configured factory for each pair of ADDRESSES tokens and fee tier
+ */
+export async function getAllV3PoolsInfo(
+    client: ReturnType<typeof createPublicClient>
+): Promise<PairInfo[]> {
+    const pools: PairInfo[] = [];
+
+    for (const factory of V3_FACTORY) {
+        const lookups: { tokenA: Address; tokenB: Address; feePips: number }[] = [];
+        for (let i = 0; i < ADDRESSES.length; i++) {
+            for (let j = i + 1; j < ADDRESSES.length; j++) {
+                for (const feePips of factory.feeTiers) {
+                    lookups.push({ tokenA: ADDRESSES[i].address, tokenB: ADDRESSES[j].address, feePips });
+                }
+            }
+        }
+
+        try {
+            const poolAddresses = await client.multicall({
+                contracts: lookups.map(({ tokenA, tokenB, feePips }) => ({
+                    address: factory.address,
+                    abi: V3_FACTORY_ABI,
+                    functionName: 'getPool',
+                    args: [tokenA, tokenB, feePips],
+                } as const)),
+                allowFailure: false,
+            });
+
+            const found = lookups
+                .map((lookup, i) => ({ ...lookup, poolAddress: poolAddresses[i] }))
+                .filter(lookup => lookup.poolAddress !== zeroAddress);
+            console.log(`Found ${found.length} V3 pools for factory ${factory.name}`);
+
+            for (const { poolAddress, feePips } of found) {
+                try {
+                    const { token0, token1, state } = await getV3PoolState(client, poolAddress);
+                    if (state.liquidity === 0n) continue;
+
+                    state.feePips = feePips;
+                    const { reserve0, reserve1 } = getVirtualReserves(state);
+                    pools.push({
+                        pairAddress: poolAddress,
+                        token0,
+                        token1,
+                        reserve0,
+                        reserve1,
+                        lastTimestamp: Math.floor(Date.now() / 1000),
+                        factory: factory.name,
+                        fee: feePips / 100,
+                        v3: state,
+                    });
+                } catch (error) {
+                    if (DEBUG) {
+                        console.error(`Error loading V3 pool ${poolAddress}:`, error);
+                    }
+                }
+            }
+        } catch (error) {
+            if (DEBUG) {
+                console.error(`Error fetching pools for V3 factory ${factory.name}:`, error);
+            }
+        }
+    }
+
+    return pools;
+}
@@ -0,0 +1,286 @@
+import { type Address } from 'viem';
+import { ArbitrageGraph, type ArbitrageResult, type PairInfo } from './graph';
+import { type V3PoolState } from './v3';
+import { DEBUG, SEARCH_WORKERS, SEARCH_WORKER_TIMEOUT_MS, SEARCH_WORKER_FIRST_TIMEOUT_MS, maxHops } from './constants';
+
+// Same cap as ArbitrageGraph.rankOpportunities
+const MAX_MERGED_OPPORTUNITIES = 20;
+
+export type PairStateUpdate = {
+    pairAddress: Address;
+    reserve0: bigint;
+    reserve1: bigint;
+    v3?: V3PoolState;
+};
+
+/**
+ * Messages to a search worker. Snapshots and updates are applied in order before later searches.
+ */
+export type SearchWorkerRequest =
+    | { type: 'snapshot'; pairs: PairInfo[] }
+    | { type: 'update'; updates: PairStateUpdate[] }
+    | { type: 'search'; id: number; startTokens: Address[]; rotationTokens: Address[]; baseFee: bigint; maxDepth: number }
+    | { type: 'searchPairs'; id: number; startTokens: Address[]; rotationTokens: Address[]; baseFee: bigint; updatedPairs: Address[]; maxDepth: number };
+
+type PendingSearch = {
+    resolve: (result: ArbitrageResult) => void;
+    reject: (error: Error) => void;
+    // Index of the worker the search was sent to
+    worker: number;
+    timer: ReturnType<typeof setTimeout>;
+};
+
+export type SearchWorkerResponse =
+    | { id: number; result: ArbitrageResult }
+    | { id: number; error: string };
+
+/**
+ * Runs the arbitrage search in Bun workers.
+ * Each worker keeps its own graph built from a compact snapshot of the pairs (no edges or
+ * indices), the start tokens are split across the workers and the ranked results merged.
+ */
+export class SearchWorkerPool {
+    private workers: Worker[] = [];
+    // Whether each worker has answered a search since it was spawned (its graph and cycle index are built)
+    private warmed: boolean[] = [];
+    private pending: Map<number, PendingSearch> = new Map();
+    private nextId = 0;
+    private syncedGraph: ArbitrageGraph | null = null;
+    private syncedVersion = -1;
+
+    constructor(
+        size: number,
+        private readonly timeoutMs: number = SEARCH_WORKER_TIMEOUT_MS,
+        private readonly firstTimeoutMs: number = SEARCH_WORKER_FIRST_TIMEOUT_MS
+    ) {
+        for (let i = 0; i < size; i++) {
+            this.workers.push(this.spawn(i));
+        }
+        console.log(`Started ${size} search workers`);
+    }
+
+    private spawn(index: number): Worker {
+        const worker = new Worker(new URL('./searchWorker.ts', import.meta.url).href);
+        this.warmed[index] = false;
+        worker.onmessage = (event: MessageEvent<SearchWorkerResponse>) => this.handleResponse(event.data);
+        worker.onerror = (event: ErrorEvent) => {
+            console.error(`Search worker ${index} error:`, event.message);
+            this.restart(index, `Search worker ${index} crashed: ${event.message}`);
+        };
+        return worker;
+    }
+
+    // Replace a crashed or stuck worker, rejecting the searches it still owed.
+    // The new worker starts without a graph, so the next search sends a full snapshot.
+    private restart(index: number, reason: string): void {
+        const worker = this.workers[index];
+        if (!worker) return;
+
+        for (const [id, pending] of this.pending) {
+            if (pending.worker !== index) continue;
+            clearTimeout(pending.timer);
+            this.pending.delete(id);
+            pending.reject(new Error(reason));
+        }
+
+        worker.terminate();
+        this.workers[index] = this.spawn(index);
+        this.syncedVersion = -1;
+        console.warn(`Restarted search worker ${index}`);
+    }
+
+    async findMultiTokenArbitrageOpportunities(
+        graph: ArbitrageGraph,
+        startTokens: Address[],
+        maxDepth: number = maxHops
+    ): Promise<ArbitrageResult> {
+        return this.fanOut(graph, startTokens, (id, tokens) => ({
+            type: 'search',
+            id,
+            startTokens: tokens,
+            rotationTokens: startTokens,
+            baseFee: graph.getBaseFee(),
+            maxDepth,
+        }));
+    }
+
+    async findArbitrageOpportunitiesForPairs(
+        graph: ArbitrageGraph,
+        startTokens: Address[],
+        updatedPairs: Address[],
+        maxDepth: number = maxHops
+    ): Promise<ArbitrageResult> {
+        return this.fanOut(graph, startTokens, (id, tokens) => ({
+            type: 'searchPairs',
+            id,
+            startTokens: tokens,
+            rotationTokens: startTokens,
+            baseFee: graph.getBaseFee(),
+            updatedPairs,
+            maxDepth,
+        }));
+    }
+
+    terminate(): void {
+        for (const worker of this.workers) {
+            worker.terminate();
+        }
+        this.workers = [];
+        for (const { reject, timer } of this.pending.values()) {
+            clearTimeout(timer);
+            reject(new Error('Search worker pool terminated'));
+        }
+        this.pending.clear();
+    }
+
+    // Bring every worker's graph up to date: a full snapshot after pairs were added or
+    // removed, otherwise only the state of the pairs that changed since the last search
+    private sync(graph: ArbitrageGraph): void {
+        if (graph !== this.syncedGraph || graph.getStructureVersion() !== this.syncedVersion) {
+            const pairs = graph.getAllPairs();
+            graph.takeChangedPairs();
+            this.broadcast({ type: 'snapshot', pairs });
+            this.syncedGraph = graph;
+            this.syncedVersion = graph.getStructureVersion();
+            if (DEBUG) console.log(`Sent snapshot of ${pairs.length} pairs to ${this.workers.length} search workers`);
+            return;
+        }
+
+        const updates: PairStateUpdate[] = [];
+        for (const pairAddress of graph.takeChangedPairs()) {
+            const pair = graph.getPair(pairAddress);
+            if (!pair) continue;
+            updates.push({ pairAddress, reserve0: pair.reserve0, reserve1: pair.reserve1, v3: pair.v3 });
+        }
+        if (updates.length > 0) this.broadcast({ type: 'update', updates });
+    }
+
+    private broadcast(request: SearchWorkerRequest): void {
+        for (const worker of this.workers) {
+            worker.postMessage(request);
+        }
+    }
+
+    // Split the start tokens round-robin so each worker always gets the same share
+    // (and keeps its cycle index), then merge the ranked results.
+    // A failed or timed out worker only loses its share, unless every share failed.
+    private async fanOut(
+        graph: ArbitrageGraph,
+        startTokens: Address[],
+        buildRequest: (id: number, tokens: Address[]) => SearchWorkerRequest
+    ): Promise<ArbitrageResult> {
+        if (this.workers.length === 0) throw new Error('Search worker pool terminated');
+        this.sync(graph);
+
+        const shares: Address[][] = this.workers.map(() => []);
+        startTokens.forEach((token, i) => shares[i % shares.length].push(token));
+
+        const requested = shares
+            .map((tokens, worker) => ({ tokens, worker }))
+            .filter(({ tokens }) => tokens.length > 0);
+        const settled = await Promise.allSettled(
+            requested.map(({ tokens, worker }) => this.request(worker, buildRequest, tokens))
+        );
+
+        const results: ArbitrageResult[] = [];
+        settled.forEach((outcome, i) => {
+            if (outcome.status === 'fulfilled') {
+                results.push(outcome.value);
+            } else {
+                const { tokens, worker } = requested[i];
+                console.warn(`Search worker ${worker} failed, skipping ${tokens.length} start tokens:`, outcome.reason?.message ?? outcome.reason);
+            }
+        });
+        if (results.length === 0 && settled.length > 0) {
+            throw new Error('Every search worker failed');
+        }
+
+        return mergeResults(graph, results);
+    }
+
+    private request(
+        worker: number,
+        buildRequest: (id: number, tokens: Address[]) => SearchWorkerRequest,
+        tokens: Address[]
+    ): Promise<ArbitrageResult> {
+        const id = this.nextId++;
+        const timeoutMs = this.warmed[worker] ? this.timeoutMs : this.firstTimeoutMs;
+        return new Promise((resolve, reject) => {
+            const timer = setTimeout(
+                () => this.restart(worker, `Search worker ${worker} timed out after ${timeoutMs}ms`),
+                timeoutMs
+            );
+            this.pending.set(id, { resolve, reject, worker, timer });
+            this.workers[worker].postMessage(buildRequest(id, tokens));
+        });
+    }
+
+    private handleResponse(response: SearchWorkerResponse): void {
+        const pending = this.pending.get(response.id);
+        if (!pending) return;
+        this.pending.delete(response.id);
+        clearTimeout(pending.timer);
+
+        if ('error' in response) {
+            pending.reject(new Error(response.error));
+        } else {
+            this.warmed[pending.worker] = true;
+            pending.resolve(response.result);
+        }
+    }
+}
+
+// Merge per-worker results, keeping the most profitable opportunities by net profit valued
+// in WCRO, as start tokens differ in decimals.
+// Workers rotate cycles against the same tokens, so a cycle found by several has one form.
+function mergeResults(graph: ArbitrageGraph, results: ArbitrageResult[]): ArbitrageResult {
+    const entries = results.flatMap(result => result.paths.map((path, i) => {
+        const netProfit = result.netProfits[i];
+        return { result, i, value: graph.valueIn(path[0], netProfit) ?? netProfit };
+    }));
+    entries.sort((a, b) => (b.value > a.value ? 1 : b.value < a.value ? -1 : 0));
+    const seen = new Set<string>();
+    const top = entries
+        .filter(({ result, i }) => {
+            const key = `${result.paths[i].join(',')}|${result.pairs[i].join(',')}`;
+            if (seen.has(key)) return false;
+            seen.add(key);
+            return true;
+        })
+        .slice(0, MAX_MERGED_OPPORTUNITIES);
+
+    return {
+        paths: top.map(({ result, i }) => result.paths[i]),
+        pairs: top.map(({ result, i }) => result.pairs[i]),
+        profits: top.map(({ result, i }) => result.profits[i]),
+        optimalAmounts: top.map(({ result, i }) => result.optimalAmounts[i]),
+        fees: top.map(({ result, i }) => result.fees[i]),
+        exactProfits: top.map(({ result, i }) => result.exactProfits[i]),
+        netProfits: top.map(({ result, i }) => result.netProfits[i]),
+        gasEstimates: top.map(({ result, i }) => result.gasEstimates[i]),
+        exactAmounts: top.map(({ result, i }) => result.exactAmounts[i]),
+        amountsOut: top.map(({ result, i }) => result.amountsOut[i]),
+        errorBounds: top.map(({ result, i }) => result.errorBounds[i]),
+        minAmountsOut: top.map(({ result, i }) => result.minAmountsOut[i]),
+        alternativeStartTokens: top.map(({ result, i }) => result.alternativeStartTokens[i]),
+    };
+}
+
+// Singleton instance
+let searchWorkerPool: SearchWorkerPool | null = null;
+
+/**
+ * Shared pool sized by SEARCH_WORKERS, null when the search runs on the main thread
+ */
+export function getSearchWorkerPool(): SearchWorkerPool | null {
+    if (SEARCH_WORKERS <= 0) return null;
+    if (!searchWorkerPool) {
+        searchWorkerPool = new SearchWorkerPool(SEARCH_WORKERS);
+    }
+    return searchWorkerPool;
+}
+
+export function terminateSearchWorkerPool(): void {
+    searchWorkerPool?.terminate();
+    searchWorkerPool = null;
+}